@@ -1,21 +1,40 @@
 #!/usr/bin/env node
 
 import { Command } from 'commander';
-import inquirer from 'inquirer';
 import chalk from 'chalk';
 import ora from 'ora';
-import { config } from './config.js';
-import { setupLinear, getAssignedTasks } from './linear.js';
-import { setupGithub } from './github.js';
-import { createPullRequest } from './pr.js';
-import { validateTaskId, extractTaskIdFromBranchName } from './utils.js';
+import { setSetting, setProfileOverride, getActiveProfile, getProfiles } from './config.js';
+import type { ActiveProfile } from './config.js';
+import { addProfile, useProfile, removeProfile, clearDefaultProfile } from './profiles.js';
+import { setupLinear, getAssignedTasks, listTasks, sortTasks, TASK_SORT_KEYS, toLinearError } from './linear.js';
+import type { TaskListItem, TaskSortKey } from './linear.js';
+import { getOAuthPort, getOAuthRedirectUri } from './oauth.js';
+import { setSecret } from './secrets.js';
+import {
+  listLinearCredentials,
+  listGithubCredentials,
+  listGitlabCredentials,
+  getLinearCredential,
+  describeCredentialSource,
+  maskToken
+} from './credentials.js';
+import type { Credential } from './credentials.js';
+import { createOctokit, toGithubError } from './github.js';
+import { getCodeHostProvider } from './providers/index.js';
+import type { ChangeRequest, ChangeRequestState, ReviewStatus, CheckResult, ReviewDecision } from './providers/index.js';
+import { createPullRequest, planPullRequest } from './pr.js';
+import type { PullRequestPlan, PlannedStep } from './pr.js';
+import { syncTasks } from './sync.js';
+import { restack, getRebaseArgs } from './stack.js';
+import { formatGitCommand } from './git.js';
+import { getBranchStatus } from './status.js';
+import type { BranchStatus } from './status.js';
+import { prompt, setNonInteractive, isInteractive } from './prompt.js';
+import { InputRequiredError, describeError, EXIT_CODES } from './errors.js';
 import { LinearClient } from '@linear/sdk';
-import { Octokit } from 'octokit';
 import fs from 'fs';
 import path from 'path';
-
-// Configuration constants
-const OAUTH_PORT = 45678;
+import { log, setLogStream } from './logger.js';
 
 /**
  * Set up Linear with a provided API key
@@ -25,15 +44,13 @@ async function setupLinearWithKey(apiKey: string): Promise<void> {
     // Verify the key works
     const client = new LinearClient({ apiKey });
     const viewer = await client.viewer;
-    console.log(chalk.green(`✅ Connected to Linear as ${viewer.name}`));
+    log(chalk.green(`✅ Connected to Linear as ${viewer.name}`));
     
     // Save the token and mark it as an API key
-    config.set('linearAccessToken', apiKey);
-    config.set('isApiKey', true);
+    setSecret('linearAccessToken', apiKey);
+    setSetting('isApiKey', true);
   } catch (error) {
-    console.error(chalk.red('Error connecting to Linear with provided API key:'), 
-      error instanceof Error ? error.message : 'Invalid token');
-    throw new Error('Failed to connect to Linear with provided API key');
+    throw toLinearError(error, 'Failed to connect to Linear with the provided API key');
   }
 }
 
@@ -43,24 +60,22 @@ async function setupLinearWithKey(apiKey: string): Promise<void> {
 async function setupGithubWithToken(token: string): Promise<void> {
   try {
     // Verify the token works
-    const octokit = new Octokit({ auth: token });
+    const octokit = createOctokit(token);
     const { data: user } = await octokit.rest.users.getAuthenticated();
-    console.log(chalk.green(`✅ Connected to GitHub as ${user.login}`));
+    log(chalk.green(`✅ Connected to GitHub as ${user.login}`));
     
     // Save the token
-    config.set('githubToken', token);
-    config.set('githubUsername', user.login);
+    setSecret('githubToken', token);
+    setSetting('githubUsername', user.login);
     
     // Set default branch to development
-    config.set('defaultBranch', 'development');
-    console.log(chalk.green(`Default base branch set to development`));
+    setSetting('defaultBranch', 'development');
+    log(chalk.green('Default base branch set to development'));
     
     // Note: We're skipping the repository detection step here
     // If needed, user can run `linear-pr setup` interactively to set repo
   } catch (error) {
-    console.error(chalk.red('Error connecting to GitHub with provided token:'), 
-      error instanceof Error ? error.message : 'Invalid token');
-    throw new Error('Failed to connect to GitHub with provided token');
+    throw toGithubError(error, 'Failed to connect to GitHub with the provided token');
   }
 }
 
@@ -69,45 +84,129 @@ const program = new Command();
 program
   .name('linear-pr')
   .description('Create GitHub PRs from Linear tasks')
-  .version('1.0.0');
+  .version('1.0.0')
+  .option('-p, --profile <name>', 'Use a named profile (also: LINEAR_PR_PROFILE)')
+  .option('--non-interactive', 'Never prompt: use defaults or fail (automatic when stdin is not a terminal)')
+  .option('-y, --yes', 'Same as --non-interactive')
+  .option('--json', 'Print results as JSON on stdout (implies --non-interactive)');
+
+/**
+ * Check if the command should print JSON instead of text
+ */
+function isJsonOutput(): boolean {
+  return Boolean(program.opts().json);
+}
+
+/**
+ * Print a command's result as JSON on stdout
+ */
+function printJson(value: unknown): void {
+  process.stdout.write(`${JSON.stringify(value, null, 2)}\n`);
+}
+
+/**
+ * Report a command's error and exit with its exit code: as JSON in --json mode,
+ * else in red on stderr with what caused it and a hint on how to fix it
+ */
+function exitWithError(label: string, error: unknown): never {
+  const report = describeError(error);
+  if (isJsonOutput()) {
+    printJson({ error: report });
+  } else {
+    console.error(chalk.red(label), report.message);
+    for (const cause of report.causes) {
+      console.error(chalk.gray(`  caused by: ${cause}`));
+    }
+    if (report.hint) {
+      console.error(chalk.yellow(`  Hint: ${report.hint}`));
+    }
+  }
+  process.exit(report.exitCode);
+}
+
+// Describe why a profile was picked, for the status line printed before each command
+const PROFILE_REASONS: Record<ActiveProfile['reason'], string> = {
+  flag: '--profile',
+  environment: 'LINEAR_PR_PROFILE',
+  match: 'matched by remote or directory',
+  default: 'default'
+};
+
+program.hook('preAction', (_, actionCommand) => {
+  const { profile: profileName, nonInteractive, yes, json } = program.opts();
+  setNonInteractive(Boolean(nonInteractive || yes || json));
+  if (json) {
+    // Progress messages go to stderr, so stdout holds nothing but the JSON result
+    setLogStream(process.stderr);
+  }
+
+  try {
+    setProfileOverride(profileName);
+    const profile = getActiveProfile();
+    if (profile && actionCommand.name() !== 'version') {
+      log(chalk.gray(`Profile: ${profile.name} (${PROFILE_REASONS[profile.reason]})`));
+    }
+  } catch (error) {
+    exitWithError('Error:', error);
+  }
+});
 
 program
   .command('setup')
   .description('Configure Linear and GitHub credentials')
   .option('--linear-api-key <key>', 'Linear API key (skips interactive prompt)')
   .option('--github-token <token>', 'GitHub personal access token (skips interactive prompt)')
+  .option('--github-host <host>', 'GitHub Enterprise Server host, e.g. github.example.com')
+  .option('--github-api-url <url>', 'GitHub REST API URL, if not https://<host>/api/v3')
+  .option('--no-browser', 'For Linear OAuth, print the authorization URL and paste the code instead of opening a browser')
   .action(async (options) => {
     try {
+      if (options.githubHost) {
+        setSetting('githubHost', options.githubHost.replace(/^https?:\/\//, '').replace(/\/+$/, ''));
+      }
+      if (options.githubApiUrl) {
+        setSetting('githubApiUrl', options.githubApiUrl);
+      }
+      
       // If API keys are provided as arguments, use them directly
       if (options.linearApiKey || options.githubToken) {
-        console.log(chalk.blue('Setting up with provided credentials'));
+        log(chalk.blue('Setting up with provided credentials'));
+        log(chalk.yellow('Note: secrets passed as flags end up in your shell history. Prefer the LINEAR_API_KEY and GITHUB_TOKEN environment variables.'));
         
         // Setup Linear with API key if provided
         if (options.linearApiKey) {
           await setupLinearWithKey(options.linearApiKey);
         } else {
-          console.log(chalk.yellow('No Linear API key provided. Run the command again with --linear-api-key or run linear-pr setup without arguments for interactive setup.'));
+          log(chalk.yellow('No Linear API key provided. Run the command again with --linear-api-key or run linear-pr setup without arguments for interactive setup.'));
         }
         
         // Setup GitHub with token if provided
         if (options.githubToken) {
           await setupGithubWithToken(options.githubToken);
         } else {
-          console.log(chalk.yellow('No GitHub token provided. Run the command again with --github-token or run linear-pr setup without arguments for interactive setup.'));
+          log(chalk.yellow('No GitHub token provided. Run the command again with --github-token or run linear-pr setup without arguments for interactive setup.'));
         }
         
         if (options.linearApiKey || options.githubToken) {
-          console.log(chalk.green('✅ Setup completed with provided credentials!'));
+          log(chalk.green('✅ Setup completed with provided credentials!'));
         }
       } else {
         // Interactive setup if no arguments provided
-        await setupLinear();
-        await setupGithub();
-        console.log(chalk.green('✅ Setup complete!'));
+        const linearCredential = getLinearCredential();
+        if (linearCredential?.source === 'environment') {
+          log(chalk.green(`Using Linear API key from ${describeCredentialSource(linearCredential)}`));
+        } else {
+          await setupLinear({ noBrowser: options.browser === false });
+        }
+        await getCodeHostProvider().setup();
+        log(chalk.green('✅ Setup complete!'));
+      }
+
+      if (isJsonOutput()) {
+        printJson({ success: true });
       }
     } catch (error) {
-      console.error(chalk.red('Error during setup:'), error instanceof Error ? error.message : String(error));
-      process.exit(1);
+      exitWithError('Error during setup:', error);
     }
   });
 
@@ -116,27 +215,46 @@ program
   .description('Configure Linear OAuth credentials')
   .option('--client-id <id>', 'Linear OAuth client ID')
   .option('--client-secret <secret>', 'Linear OAuth client secret')
+  .option('--port <port>', 'Port for the local OAuth callback server (0 picks a free port)')
   .action(async (options) => {
     try {
+      if (options.port !== undefined) {
+        const port = Number(options.port);
+        if (!Number.isInteger(port) || port < 0 || port > 65535) {
+          throw new Error(`Invalid port: ${options.port}`);
+        }
+        setSetting('linearOAuthPort', port);
+        log(chalk.green(`OAuth callback port set to ${port === 0 ? 'automatic' : port}`));
+        
+        // Changing only the port doesn't need the OAuth credentials again
+        if (!options.clientId && !options.clientSecret) {
+          if (isJsonOutput()) {
+            printJson({ success: true });
+          }
+          return;
+        }
+      }
+      
+
       // If client ID and secret are provided as arguments, use them directly
       if (options.clientId && options.clientSecret) {
-        console.log(chalk.blue('Setting up Linear OAuth with provided credentials'));
+        log(chalk.blue('Setting up Linear OAuth with provided credentials'));
         
-        config.set('linearOAuthClientId', options.clientId);
-        config.set('linearOAuthClientSecret', options.clientSecret);
+        setSetting('linearOAuthClientId', options.clientId);
+        setSecret('linearOAuthClientSecret', options.clientSecret);
         
-        console.log(chalk.green('✅ Linear OAuth credentials configured!'));
-        console.log(chalk.yellow('Now run `linear-pr setup` to complete authentication.'));
+        log(chalk.green('✅ Linear OAuth credentials configured!'));
+        log(chalk.yellow('Now run `linear-pr setup` to complete authentication.'));
       } else {
         // Interactive setup if no arguments provided
-        console.log(chalk.blue('Setting up Linear OAuth credentials'));
-        console.log(chalk.yellow('You need to create an OAuth application in Linear:'));
-        console.log('1. Go to your workspace settings');
-        console.log('2. Select "API" from the menu');
-        console.log('3. Create a new OAuth application');
-        console.log(`4. Set the redirect URL to: http://localhost:${OAUTH_PORT}/callback\n`);
+        log(chalk.blue('Setting up Linear OAuth credentials'));
+        log(chalk.yellow('You need to create an OAuth application in Linear:'));
+        log('1. Go to your workspace settings');
+        log('2. Select "API" from the menu');
+        log('3. Create a new OAuth application');
+        log(`4. Set the redirect URL to: ${getOAuthPort() === 0 ? 'http://localhost:<any port>/callback' : getOAuthRedirectUri()}\n`);
     
-        const { clientId, clientSecret } = await inquirer.prompt([
+        const { clientId, clientSecret } = await prompt([
           {
             type: 'input',
             name: 'clientId',
@@ -149,24 +267,221 @@ program
             message: 'Enter your OAuth Client Secret:',
             validate: (input) => !!input || 'Client Secret is required'
           }
-        ]);
+        ], { hint: 'Pass --client-id and --client-secret.' });
     
-        config.set('linearOAuthClientId', clientId);
-        config.set('linearOAuthClientSecret', clientSecret);
+        setSetting('linearOAuthClientId', clientId);
+        setSecret('linearOAuthClientSecret', clientSecret);
     
-        console.log(chalk.green('✅ Linear OAuth credentials configured!'));
-        console.log(chalk.yellow('Now run `linear-pr setup` to complete authentication.'));
+        log(chalk.green('✅ Linear OAuth credentials configured!'));
+        log(chalk.yellow('Now run `linear-pr setup` to complete authentication.'));
+      }
+
+      if (isJsonOutput()) {
+        printJson({ success: true });
       }
     } catch (error) {
-      console.error(chalk.red('Error configuring OAuth:'), error instanceof Error ? error.message : String(error));
-      process.exit(1);
+      exitWithError('Error configuring OAuth:', error);
+    }
+  });
+
+/**
+ * Print which credential is used for a service and which others are available
+ */
+function printCredentialStatus(service: string, credentials: Credential[]): void {
+  if (credentials.length === 0) {
+    log(`${chalk.bold(service)}: ${chalk.red('not configured')}`);
+    return;
+  }
+  
+  const [active, ...shadowed] = credentials;
+  const kind = active.isApiKey === undefined ? '' : chalk.gray(active.isApiKey ? ' (API key)' : ' (OAuth token)');
+  log(`${chalk.bold(service)}: ${chalk.green(describeCredentialSource(active))} ${maskToken(active.token)}${kind}`);
+  
+  for (const credential of shadowed) {
+    log(chalk.gray(`  also found, not used: ${describeCredentialSource(credential)} ${maskToken(credential.token)}`));
+  }
+}
+
+const auth = program
+  .command('auth')
+  .description('Inspect Linear and GitHub credentials');
+
+auth
+  .command('status')
+  .description('Show which source each credential comes from')
+  .action(() => {
+    try {
+      const linearCredentials = listLinearCredentials();
+      const codeHost = getCodeHostProvider();
+      const codeHostCredentials = codeHost.name === 'gitlab' ? listGitlabCredentials() : listGithubCredentials(codeHost.host);
+
+      if (isJsonOutput()) {
+        // The first credential of each service is the one in use
+        const describe = (credentials: Credential[]) => credentials.map(credential => ({
+          source: describeCredentialSource(credential),
+          token: maskToken(credential.token),
+          ...(credential.isApiKey !== undefined && { isApiKey: credential.isApiKey })
+        }));
+        printJson({
+          linear: describe(linearCredentials),
+          codeHost: { name: codeHost.name, host: codeHost.host, credentials: describe(codeHostCredentials) }
+        });
+        return;
+      }
+
+      printCredentialStatus('Linear', linearCredentials);
+      printCredentialStatus(`${codeHost.displayName} (${codeHost.host})`, codeHostCredentials);
+    } catch (error) {
+      exitWithError('Error reading credentials:', error);
+    }
+  });
+
+const profile = program
+  .command('profile')
+  .description('Manage named profiles for multiple Linear workspaces and GitHub accounts');
+
+profile
+  .command('list')
+  .description('List profiles')
+  .action(() => {
+    const profiles = getProfiles();
+    const names = Object.keys(profiles).sort();
+    
+    if (isJsonOutput()) {
+      const active = getActiveProfile();
+      printJson(names.map(name => ({ name, active: active?.name === name, ...profiles[name] })));
+      return;
+    }
+    
+    if (names.length === 0) {
+      log(chalk.yellow('No profiles configured. Create one with `linear-pr profile add <name>`.'));
+      return;
+    }
+    
+    const active = getActiveProfile();
+    for (const name of names) {
+      const { githubRepo, defaultBranch, match } = profiles[name];
+      const marker = active?.name === name ? chalk.green('* ') : '  ';
+      const details = [
+        githubRepo && `repo ${githubRepo}`,
+        defaultBranch && `base ${defaultBranch}`,
+        match?.remotes?.length && `remotes ${match.remotes.join(', ')}`,
+        match?.paths?.length && `paths ${match.paths.join(', ')}`
+      ].filter(Boolean).join('; ');
+      log(`${marker}${chalk.bold(name)}${details ? chalk.gray(` (${details})`) : ''}`);
+    }
+  });
+
+profile
+  .command('add')
+  .description('Create a profile')
+  .argument('<name>', 'Profile name')
+  .option('--repo <owner/repo>', 'Fallback GitHub repository')
+  .option('--base-branch <branch>', 'Base branch for new branches and PRs')
+  .option('--match-remote <patterns...>', 'Select automatically for origin remotes like github.com/acme/*')
+  .option('--match-path <dirs...>', 'Select automatically inside these directories')
+  .option('--use', 'Make this the default profile', false)
+  .action((name, options) => {
+    try {
+      const match = {
+        ...(options.matchRemote && { remotes: options.matchRemote }),
+        ...(options.matchPath && { paths: options.matchPath })
+      };
+      addProfile(name, {
+        ...(options.repo && { githubRepo: options.repo }),
+        ...(options.baseBranch && { defaultBranch: options.baseBranch }),
+        ...(Object.keys(match).length > 0 && { match })
+      });
+      if (options.use) {
+        useProfile(name);
+      }
+      
+      log(chalk.green(`✅ Profile "${name}" created${options.use ? ' and set as default' : ''}.`));
+      log(chalk.yellow(`Run \`linear-pr setup --profile ${name}\` to connect its Linear and GitHub accounts.`));
+      if (isJsonOutput()) {
+        printJson({ profile: name, default: Boolean(options.use) });
+      }
+    } catch (error) {
+      exitWithError('Error creating profile:', error);
+    }
+  });
+
+profile
+  .command('use')
+  .description('Set the default profile')
+  .argument('[name]', 'Profile name')
+  .option('--none', 'Go back to the global settings', false)
+  .action((name, options) => {
+    try {
+      if (options.none) {
+        clearDefaultProfile();
+        log(chalk.green('✅ No default profile; using the global settings.'));
+        if (isJsonOutput()) {
+          printJson({ default: null });
+        }
+        return;
+      }
+      if (!name) {
+        throw new Error('Specify a profile name, or --none to clear the default.');
+      }
+      useProfile(name);
+      log(chalk.green(`✅ Default profile set to "${name}".`));
+      if (isJsonOutput()) {
+        printJson({ default: name });
+      }
+    } catch (error) {
+      exitWithError('Error selecting profile:', error);
+    }
+  });
+
+profile
+  .command('remove')
+  .description('Delete a profile and its stored credentials')
+  .argument('<name>', 'Profile name')
+  .action((name) => {
+    try {
+      removeProfile(name);
+      log(chalk.green(`✅ Profile "${name}" removed.`));
+      if (isJsonOutput()) {
+        printJson({ removed: name });
+      }
+    } catch (error) {
+      exitWithError('Error removing profile:', error);
     }
   });
 
+// How each PR state and review status is shown in the task picker
+const PR_STATE_LABELS: Record<ChangeRequestState, string> = {
+  open: chalk.green('PR Open'),
+  draft: chalk.gray('PR Draft'),
+  merged: chalk.magenta('PR Merged'),
+  closed: chalk.red('PR Closed')
+};
+const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  approved: chalk.green('approved'),
+  changes_requested: chalk.yellow('changes requested'),
+  review_required: chalk.gray('review required')
+};
+
+/**
+ * Describe a PR's state and review status, e.g. "(PR Open #12, approved)"
+ */
+function formatPRStatus(pullRequest: ChangeRequest): string {
+  const review = pullRequest.reviewStatus ? `, ${REVIEW_STATUS_LABELS[pullRequest.reviewStatus]}` : '';
+  return `(${PR_STATE_LABELS[pullRequest.state]} #${pullRequest.number}${review})`;
+}
+
+/**
+ * Check if a PR was merged or closed
+ */
+function isFinished(pullRequest: ChangeRequest | undefined): boolean {
+  return pullRequest?.state === 'merged' || pullRequest?.state === 'closed';
+}
+
 /**
  * Display and let the user select from assigned tasks
  */
-async function selectFromAssignedTasks() {
+async function selectFromAssignedTasks(): Promise<string[]> {
   // Show loading spinner
   const spinner = ora('Fetching your assigned tasks...').start();
   
@@ -176,18 +491,19 @@ async function selectFromAssignedTasks() {
     spinner.succeed(chalk.green(`Found ${tasks.length} assigned tasks`));
     
     if (tasks.length === 0) {
-      console.log(chalk.yellow('No active tasks assigned to you.'));
+      log(chalk.yellow('No active tasks assigned to you.'));
       process.exit(0);
     }
     
     // First, ask if the user wants to filter the tasks
-    const { searchTerm } = await inquirer.prompt([
+    const pickerHint = 'Pass a task ID or branch name to `linear-pr create`.';
+    const { searchTerm } = await prompt([
       {
         type: 'input',
         name: 'searchTerm',
         message: 'Search for a task (leave empty to show all):',
       }
-    ]);
+    ], { hint: pickerHint });
     
     // Filter tasks based on search term if provided
     let filteredTasks = tasks;
@@ -199,15 +515,15 @@ async function selectFromAssignedTasks() {
       );
       
       if (filteredTasks.length === 0) {
-        console.log(chalk.yellow(`No tasks found matching "${searchTerm}". Showing all tasks.`));
+        log(chalk.yellow(`No tasks found matching "${searchTerm}". Showing all tasks.`));
         filteredTasks = tasks;
       } else {
-        console.log(chalk.green(`Found ${filteredTasks.length} tasks matching "${searchTerm}"`));
+        log(chalk.green(`Found ${filteredTasks.length} tasks matching "${searchTerm}"`));
       }
     }
     
     // Ask how to sort the tasks
-    const { sortBy } = await inquirer.prompt([
+    const { sortBy } = await prompt([
       {
         type: 'list',
         name: 'sortBy',
@@ -219,7 +535,7 @@ async function selectFromAssignedTasks() {
         ],
         default: 'taskId'
       }
-    ]);
+    ], { hint: pickerHint });
     
     // Sort the tasks based on user selection
     filteredTasks.sort((a, b) => {
@@ -238,103 +554,461 @@ async function selectFromAssignedTasks() {
     // Prepare the choices for display
     const taskChoices = filteredTasks.map(task => {
       // Create a formatted choice with status indicator
-      let prStatus = '';
-      if (task.hasExistingPR) {
-        if (task.hasPRClosed) {
-          prStatus = chalk.red(' (PR Closed)');
-        } else {
-          prStatus = chalk.green(' (PR Open)');
-        }
-      }
-      
+      const prStatus = task.pullRequest ? ` ${formatPRStatus(task.pullRequest)}` : '';
       const state = chalk.blue(` [${task.state}]`);
       const projectInfo = task.projectName ? chalk.gray(` (${task.projectName})`) : '';
       
       return {
         name: `${task.taskId}: ${task.title}${prStatus}${state}${projectInfo}`,
         value: task.taskId,
-        // Add a disabled property to prevent selecting tasks with closed PRs
-        disabled: task.hasPRClosed ? 'This task already has a closed PR' : false
+        // Add a disabled property to prevent selecting tasks whose PR is already finished
+        disabled: isFinished(task.pullRequest) ? `This task already has a ${task.pullRequest?.state} PR` : false
       };
     });
     
-    // Prompt user to select a task
-    const { selectedTaskId } = await inquirer.prompt([
+    // Prompt user to select the tasks; with several, the first in the list is the primary task
+    const { selectedTaskIds } = await prompt([
       {
-        type: 'list',
-        name: 'selectedTaskId',
-        message: 'Select a task to create a PR for:',
+        type: 'checkbox',
+        name: 'selectedTaskIds',
+        message: 'Select the tasks to create a PR for (several make one combined PR):',
         choices: taskChoices,
         pageSize: 15,
-        loop: false
+        loop: false,
+        validate: (selected: readonly unknown[]) => selected.length > 0 || 'Select at least one task'
       }
-    ]);
+    ], { hint: pickerHint });
     
-    // Find the selected task
-    const selectedTask = filteredTasks.find(task => task.taskId === selectedTaskId);
+    // Find the selected tasks
+    const selectedTasks = filteredTasks.filter(task => selectedTaskIds.includes(task.taskId));
     
-    // Warn if task already has an open PR
-    if (selectedTask && selectedTask.hasExistingPR && !selectedTask.hasPRClosed) {
-      const { confirmCreate } = await inquirer.prompt([
+    // Warn if any task already has an open PR
+    const existingPRs = selectedTasks.flatMap(task => task.pullRequest && !isFinished(task.pullRequest) ? [task.pullRequest] : []);
+    if (existingPRs.length > 0) {
+      const { confirmCreate } = await prompt([
         {
           type: 'confirm',
           name: 'confirmCreate',
-          message: `This task already has an open PR${selectedTask.prUrl ? ` (${selectedTask.prUrl})` : ''}. Create another one?`,
+          message: existingPRs.length === 1
+            ? `This task already has an open PR (${existingPRs[0].url}). Create another one?`
+            : `These tasks already have open PRs (${existingPRs.map(pr => pr.url).join(', ')}). Create another one?`,
           default: false
         }
-      ]);
+      ], { hint: pickerHint });
       
       if (!confirmCreate) {
-        console.log(chalk.yellow('Operation canceled.'));
+        log(chalk.yellow('Operation canceled.'));
         process.exit(0);
       }
     }
     
-    // The UI should prevent selecting tasks with closed PRs,
+    // The UI should prevent selecting tasks with finished PRs,
     // but just in case, we'll check again here
-    if (selectedTask && selectedTask.hasPRClosed) {
-      console.log(chalk.red(`Task ${selectedTaskId} already has a closed PR. Cannot create a new one.`));
+    const finishedTask = selectedTasks.find(task => isFinished(task.pullRequest));
+    if (finishedTask) {
+      log(chalk.red(`Task ${finishedTask.taskId} already has a ${finishedTask.pullRequest?.state} PR. Cannot create a new one.`));
       process.exit(1);
     }
     
-    return selectedTaskId;
+    return selectedTaskIds;
   } catch (error) {
     spinner.fail(chalk.red('Failed to fetch tasks'));
-    console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
-    process.exit(1);
+    exitWithError('Error:', error);
   }
 }
 
+// How each kind of planned step is tagged by `create --dry-run`
+const STEP_LABELS: Record<PlannedStep['kind'], string> = {
+  git: chalk.cyan('git   '),
+  linear: chalk.magenta('linear'),
+  codeHost: chalk.green('remote')
+};
+
+/**
+ * Print what `create` would do
+ */
+function printPullRequestPlan(plan: PullRequestPlan): void {
+  const row = (label: string, value: string) => log(`  ${chalk.gray(label.padEnd(8))}${value}`);
+  
+  log(chalk.bold('Dry run: nothing was changed.'));
+  row('Task', plan.taskId);
+  row('Type', plan.type);
+  row('Module', plan.module || chalk.gray('none'));
+  row('Branch', plan.branch);
+  row('Base', plan.baseBranch);
+  row('Title', plan.title);
+  row('Draft', plan.draft ? 'yes' : 'no');
+  log('');
+  
+  log(chalk.bold('Steps'));
+  plan.steps.forEach((step, i) => log(`  ${String(i + 1).padStart(2)}. ${STEP_LABELS[step.kind]}  ${step.description}`));
+  log('');
+  
+  log(chalk.bold('Body'));
+  log(plan.body);
+}
+
 program
   .command('create')
   .description('Create a PR from a Linear task or branch name')
-  .argument('[taskIdOrBranch]', 'Linear task ID (e.g., ENG-123) or branch name (e.g., feature/eng-123-add-feature)')
+  .argument('[taskIdOrBranch...]', 'Linear task ID (e.g., ENG-123) or branch name (e.g., feature/eng-123-add-feature), then any further task IDs the same PR covers')
   .option('-t, --type <type>', 'PR type (feat, fix, chore, etc.)', 'feat')
   .option('-m, --module <module>', 'Module/component being changed')
   .option('-a, --enforce-assignment', 'Only allow creating PRs for tasks assigned to you', false)
   .option('-e, --exact-branch', 'Use the exact branch name or task ID as provided instead of generating a formatted branch name', false)
+  .option('-b, --branch-naming <mode>', 'How to name new branches: "pattern" (branchPattern) or "linear" (Linear\'s suggested branch name)')
+  .option('--no-draft', 'Open the PR ready for review instead of as a draft')
+  .option('--no-transition', 'Don\'t move the Linear issue to another workflow state')
+  .option('--base <branch>', 'Base the branch and PR on this branch instead of the default branch')
+  .option('--stack', 'Base the branch and PR on the branch of the task\'s parent or blocking issue without asking')
+  .option('--no-stack', 'Always base the branch and PR on the default branch')
+  .option('--label <labels...>', 'Add these labels to the PR')
+  .option('--reviewer <reviewers...>', 'Request reviews from these users (or org/team for a team)')
+  .option('--assignee <users...>', 'Assign the PR to these users')
+  .option('--no-auto-labels', 'Don\'t add the labels mapped from the Linear labels and priority')
+  .option('--no-auto-reviewers', 'Don\'t request reviews from the mapped Linear team or the CODEOWNERS')
+  .option('--no-auto-assignee', 'Don\'t assign the user mapped from the Linear assignee')
+  .option('--dry-run', 'Show the branch, title, body and every step that would be taken, without changing anything')
   .option('-v, --verbose', 'Show verbose output', false)
   .action(async (taskIdOrBranch, options) => {
     try {
       // If no taskId provided, show task selection
-      if (!taskIdOrBranch) {
+      if (options.branchNaming && !['pattern', 'linear'].includes(options.branchNaming)) {
+        throw new Error(`Invalid branch naming mode: ${options.branchNaming}. Use "pattern" or "linear".`);
+      }
+      
+      if (taskIdOrBranch.length === 0) {
+        // Don't fetch the tasks just to find out the picker can't be shown
+        if (!isInteractive()) {
+          throw new InputRequiredError('Select a task to create a PR for', 'Pass a task ID or branch name.');
+        }
         taskIdOrBranch = await selectFromAssignedTasks();
       }
 
-      const spinner = ora('Creating pull request...').start();
-
-      await createPullRequest({
-        taskId: taskIdOrBranch,
+      const [primary, ...additionalTaskIds] = taskIdOrBranch as string[];
+      const createOptions = {
+        taskId: primary,
+        additionalTaskIds,
         type: options.type,
         module: options.module,
         enforceAssignment: options.enforceAssignment,
-        useExactBranchName: options.exactBranch
-      });
+        useExactBranchName: options.exactBranch,
+        branchNaming: options.branchNaming,
+        draft: options.draft,
+        transition: options.transition,
+        base: options.base,
+        stack: options.stack,
+        labels: options.label,
+        reviewers: options.reviewer,
+        assignees: options.assignee,
+        autoLabels: options.autoLabels,
+        autoReviewers: options.autoReviewers,
+        autoAssignee: options.autoAssignee
+      };
+      
+      if (options.dryRun) {
+        const plan = await planPullRequest(createOptions);
+        if (isJsonOutput()) {
+          printJson(plan);
+        } else {
+          printPullRequestPlan(plan);
+        }
+        return;
+      }
+
+      const spinner = ora('Creating pull request...').start();
+
+      const result = await createPullRequest(createOptions);
 
       spinner.succeed(chalk.green('Pull request created successfully!'));
+      if (isJsonOutput()) {
+        printJson(result);
+      }
     } catch (error) {
-      console.error(chalk.red('Error creating PR:'), error instanceof Error ? error.message : String(error));
-      process.exit(1);
+      exitWithError('Error creating PR:', error);
+    }
+  });
+
+// How check results and review decisions are shown by `status`
+const CHECK_SYMBOLS: Record<CheckResult['status'], string> = {
+  success: chalk.green('✓'),
+  failure: chalk.red('✗'),
+  pending: chalk.yellow('•'),
+  neutral: chalk.gray('-')
+};
+const REVIEW_DECISION_LABELS: Record<ReviewDecision['state'], string> = {
+  approved: chalk.green('approved'),
+  changes_requested: chalk.red('requested changes'),
+  commented: chalk.gray('commented'),
+  pending: chalk.yellow('review pending')
+};
+
+/**
+ * Print a branch's status as a human-friendly summary
+ */
+function printBranchStatus(status: BranchStatus): void {
+  const { task, pullRequest, commits } = status;
+  const row = (label: string, value: string) => log(`  ${chalk.gray(label.padEnd(11))}${value}`);
+  
+  log(chalk.bold(`${task.taskId}: ${task.title}`));
+  row('State', task.state);
+  row('Assignee', task.assignee || chalk.gray('Unassigned'));
+  row('Project', task.project || chalk.gray('None'));
+  row('Cycle', task.cycle || chalk.gray('None'));
+  row('Priority', task.priority);
+  row('URL', task.url);
+  log('');
+  
+  log(chalk.bold(`Branch ${status.branch}`));
+  row('Commits', commits
+    ? `${commits.ahead} ahead, ${commits.behind} behind ${status.baseBranch}`
+    : chalk.gray(`unknown (origin/${status.baseBranch} not fetched)`));
+  log('');
+  
+  if (!pullRequest) {
+    log(chalk.yellow('No PR found for this branch. Run `linear-pr create` to open one.'));
+    return;
+  }
+  
+  log(chalk.bold(`PR #${pullRequest.number}: ${pullRequest.title}`));
+  row('State', PR_STATE_LABELS[pullRequest.state]);
+  row('URL', pullRequest.url);
+  if (pullRequest.state === 'open' || pullRequest.state === 'draft') {
+    row('Mergeable', pullRequest.mergeable === null
+      ? chalk.gray('checking')
+      : pullRequest.mergeable ? chalk.green('yes') : chalk.red('no (conflicts or blocked)'));
+  }
+  
+  if (pullRequest.checks.length === 0) {
+    row('Checks', chalk.gray('none'));
+  } else {
+    const count = (checkStatus: CheckResult['status']) => pullRequest.checks.filter(check => check.status === checkStatus).length;
+    row('Checks', `${count('success')} passed, ${count('failure')} failed, ${count('pending')} pending`);
+    for (const check of pullRequest.checks) {
+      log(`    ${CHECK_SYMBOLS[check.status]} ${check.name}${check.status === 'failure' && check.url ? chalk.gray(` ${check.url}`) : ''}`);
+    }
+  }
+  
+  if (pullRequest.reviews.length === 0) {
+    row('Reviews', chalk.gray('none'));
+  } else {
+    row('Reviews', pullRequest.reviews.map(review => `${review.reviewer} ${REVIEW_DECISION_LABELS[review.state]}`).join(', '));
+  }
+}
+
+// Placeholders for `list --format`
+const TASK_FORMAT_FIELDS: Record<string, (task: TaskListItem) => string> = {
+  id: task => task.taskId,
+  title: task => task.title,
+  url: task => task.url,
+  state: task => task.state,
+  team: task => task.team,
+  project: task => task.project || '',
+  cycle: task => task.cycle || '',
+  labels: task => task.labels.join(', '),
+  priority: task => task.priorityLabel,
+  assignee: task => task.assignee || ''
+};
+
+/**
+ * Format a task with a template like "{id}\t{title}"; `\t` and `\n` are unescaped
+ */
+function formatTask(template: string, task: TaskListItem): string {
+  return template
+    .replace(/\\t/g, '\t')
+    .replace(/\\n/g, '\n')
+    .replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      const field = TASK_FORMAT_FIELDS[name];
+      if (!field) {
+        throw new Error(`Unknown placeholder ${placeholder} in --format. Available: ${Object.keys(TASK_FORMAT_FIELDS).map(key => `{${key}}`).join(', ')}`);
+      }
+      return field(task);
+    });
+}
+
+/**
+ * Print tasks as a table that fits the terminal
+ */
+function printTaskTable(tasks: TaskListItem[]): void {
+  const columns = [
+    { header: 'ID', value: (task: TaskListItem) => task.taskId },
+    { header: 'State', value: (task: TaskListItem) => task.state },
+    { header: 'Priority', value: (task: TaskListItem) => task.priorityLabel },
+    { header: 'Project', value: (task: TaskListItem) => task.project || '' }
+  ];
+  const widths = columns.map(column => Math.max(column.header.length, ...tasks.map(task => column.value(task).length)));
+  
+  // The title takes whatever room is left
+  const fixedWidth = widths.reduce((total, width) => total + width + 2, 0);
+  const titleWidth = Math.max(20, (process.stdout.columns || 120) - fixedWidth);
+  const truncate = (text: string) => text.length > titleWidth ? `${text.slice(0, titleWidth - 1)}…` : text;
+  
+  const header = columns.map((column, i) => column.header.padEnd(widths[i])).join('  ');
+  log(chalk.bold(`${header}  Title`));
+  for (const task of tasks) {
+    const cells = columns.map((column, i) => column.value(task).padEnd(widths[i]));
+    log(`${chalk.cyan(cells[0])}  ${cells.slice(1).join('  ')}  ${truncate(task.title)}`);
+  }
+}
+
+program
+  .command('list')
+  .description('List your Linear tasks')
+  .option('-s, --state <states...>', 'Workflow state names or types (default: everything not completed or canceled)')
+  .option('--team <team>', 'Team key or name')
+  .option('--project <project>', 'Project name (or part of it)')
+  .option('--cycle <cycle>', 'current, next, previous or a cycle number')
+  .option('-l, --label <labels...>', 'Tasks with any of these labels')
+  .option('--priority <priorities...>', 'urgent, high, medium, low, none or 0-4')
+  .option('--anyone', 'Include tasks assigned to anyone, not just you')
+  .option('--all', 'Page through every matching task instead of stopping at --limit')
+  .option('-n, --limit <count>', 'Maximum number of tasks', '50')
+  .option('--sort <key>', `Sort by ${TASK_SORT_KEYS.join(', ')}`, 'updated')
+  .option('--format <template>', 'Print each task with a template, e.g. "{id}\\t{title}"')
+  .action(async (options) => {
+    try {
+      const limit = Number(options.limit);
+      if (!Number.isInteger(limit) || limit < 1) {
+        throw new Error(`Invalid limit: ${options.limit}`);
+      }
+      if (!(TASK_SORT_KEYS as readonly string[]).includes(options.sort)) {
+        throw new Error(`Invalid sort key "${options.sort}". Use one of: ${TASK_SORT_KEYS.join(', ')}`);
+      }
+      
+      const tasks = sortTasks(await listTasks({
+        states: options.state,
+        team: options.team,
+        project: options.project,
+        cycle: options.cycle,
+        labels: options.label,
+        priorities: options.priority,
+        anyone: options.anyone,
+        all: options.all,
+        limit
+      }), options.sort as TaskSortKey);
+      
+      if (isJsonOutput()) {
+        printJson(tasks);
+      } else if (options.format) {
+        tasks.forEach(task => log(formatTask(options.format, task)));
+      } else if (tasks.length === 0) {
+        log(chalk.yellow('No matching tasks.'));
+      } else {
+        printTaskTable(tasks);
+      }
+    } catch (error) {
+      exitWithError('Error:', error);
+    }
+  });
+
+program
+  .command('status')
+  .description('Show the Linear task and PR for the current branch')
+  .argument('[branch]', 'Branch to show instead of the current one')
+  .action(async (branch) => {
+    try {
+      const status = await getBranchStatus(branch);
+      if (isJsonOutput()) {
+        printJson(status);
+      } else {
+        printBranchStatus(status);
+      }
+    } catch (error) {
+      exitWithError('Error:', error);
+    }
+  });
+
+program
+  .command('sync')
+  .description('Update Linear tasks from the state of their PRs (merged, closed, changes requested)')
+  .option('--all', 'Sync every open task linked to a PR in this repository, not just tasks assigned to you')
+  .option('--dry-run', 'Show what would change without changing anything')
+  .action(async (options) => {
+    const spinner = ora('Checking PRs for Linear tasks...').start();
+    
+    try {
+      const actions = await syncTasks({ all: options.all, dryRun: options.dryRun });
+      spinner.stop();
+      
+      if (isJsonOutput()) {
+        printJson({ dryRun: Boolean(options.dryRun), actions });
+        if (actions.some(action => action.error)) {
+          process.exit(EXIT_CODES.partialFailure);
+        }
+        return;
+      }
+      
+      if (actions.length === 0) {
+        log(chalk.green('Linear is already up to date.'));
+        return;
+      }
+      
+      const verb = options.dryRun ? 'Dry run, nothing changed' : 'Done';
+      for (const action of actions) {
+        const changeRequest = `#${action.changeRequest.number} ${action.changeRequest.state}`;
+        if (action.error) {
+          log(chalk.red(`✗ ${action.taskId} (${changeRequest}): ${action.description} failed: ${action.error}`));
+        } else {
+          log(chalk.green(`${options.dryRun ? '•' : '✓'} ${action.taskId} (${changeRequest}): ${action.description}`));
+        }
+      }
+      
+      const failed = actions.filter(action => action.error).length;
+      log(chalk.blue(`${verb}: ${actions.length - failed} change(s)${failed ? `, ${failed} failed` : ''}.`));
+      if (failed) {
+        process.exit(EXIT_CODES.partialFailure);
+      }
+    } catch (error) {
+      spinner.fail(chalk.red('Sync failed'));
+      exitWithError('Error:', error);
+    }
+  });
+
+program
+  .command('restack')
+  .description('Retarget stacked PRs whose base PR was merged to the branch it merged into')
+  .option('--dry-run', 'Show what would change without changing anything')
+  .action(async (options) => {
+    const spinner = ora('Checking stacked PRs...').start();
+    
+    try {
+      const actions = await restack({ dryRun: options.dryRun });
+      spinner.stop();
+      
+      if (isJsonOutput()) {
+        printJson({ dryRun: Boolean(options.dryRun), actions });
+        if (actions.some(action => action.error)) {
+          process.exit(EXIT_CODES.partialFailure);
+        }
+        return;
+      }
+      
+      if (actions.length === 0) {
+        log(chalk.green('Every stacked PR is already on the right base.'));
+        return;
+      }
+      
+      for (const action of actions) {
+        const changeRequest = `#${action.changeRequest.number} ${action.branch}`;
+        if (action.error) {
+          log(chalk.red(`✗ ${changeRequest}: retargeting from ${action.from} to ${action.to} failed: ${action.error}`));
+        } else {
+          log(chalk.green(`${options.dryRun ? '•' : '✓'} ${changeRequest}: ${action.from} → ${action.to}`));
+        }
+      }
+      
+      const failed = actions.filter(action => action.error).length;
+      log(chalk.blue(`${options.dryRun ? 'Dry run, nothing changed' : 'Done'}: ${actions.length - failed} PR(s) retargeted${failed ? `, ${failed} failed` : ''}.`));
+      
+      // Squash merges leave the merged base's commits on the branches stacked on it
+      log(chalk.gray('If a base was squash-merged, drop its commits from the stacked branch and force-push, e.g.:'));
+      actions.filter(action => !action.error).forEach(action => log(chalk.gray(`  ${formatGitCommand(getRebaseArgs(action))}`)));
+      if (failed) {
+        process.exit(EXIT_CODES.partialFailure);
+      }
+    } catch (error) {
+      spinner.fail(chalk.red('Restack failed'));
+      exitWithError('Error:', error);
     }
   });
 
@@ -342,13 +1016,14 @@ program
   .command('version')
   .description('Get the current package version')
   .action(() => {
+    const printVersion = (version: string) => isJsonOutput() ? printJson({ version }) : log(version);
     try {
       // Read package.json from the project root
       const packageJsonPath = path.join(process.cwd(), 'package.json');
       
       if (fs.existsSync(packageJsonPath)) {
         const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf8'));
-        console.log(packageJson.version);
+        printVersion(packageJson.version);
       } else {
         // Try to find package.json relative to the current script location
         const scriptDir = path.dirname(new URL(import.meta.url).pathname);
@@ -357,15 +1032,13 @@ program
         
         if (fs.existsSync(fallbackPath)) {
           const packageJson = JSON.parse(fs.readFileSync(fallbackPath, 'utf8'));
-          console.log(packageJson.version);
+          printVersion(packageJson.version);
         } else {
-          console.error(chalk.red('Error: package.json not found'));
-          process.exit(1);
+          exitWithError('Error:', new Error('package.json not found'));
         }
       }
     } catch (error) {
-      console.error(chalk.red('Error reading package.json:'), error instanceof Error ? error.message : String(error));
-      process.exit(1);
+      exitWithError('Error reading package.json:', error);
     }
   });
 
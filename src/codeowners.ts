@@ -0,0 +1,90 @@
+import fs from 'fs';
+import path from 'path';
+import { gitOutput, isGitRepository } from './git.js';
+
+// Where GitHub and GitLab look for a CODEOWNERS file, in order
+export const CODEOWNERS_FILES = ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS', '.gitlab/CODEOWNERS'];
+
+/**
+ * One line of a CODEOWNERS file: a path pattern and the owners of matching files
+ */
+export interface CodeownersRule {
+  pattern: string;
+  // `@user`, `@org/team` or email addresses; empty when the line removes ownership
+  owners: string[];
+  matches: RegExp;
+}
+
+/**
+ * Turn a CODEOWNERS pattern (gitignore syntax) into a regular expression over repository paths
+ */
+export function codeownersPatternToRegExp(pattern: string): RegExp {
+  // A slash anywhere but the end anchors the pattern to the repository root
+  const anchored = pattern.replace(/\/$/, '').includes('/');
+  const directory = pattern.endsWith('/');
+  const trimmed = pattern.replace(/^\//, '').replace(/\/$/, '');
+
+  const source = trimmed
+    .split('/')
+    .map(segment => segment === '**'
+      ? '\0'
+      : segment.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*').replace(/\?/g, '[^/]'))
+    .join('/')
+    .replace(/^\0\//, '(?:.*/)?')
+    .replace(/\/\0$/, '(?:/.*)?')
+    .replace(/\/\0\//g, '/(?:.*/)?')
+    .replace(/\0/g, '.*');
+
+  // A pattern also matches everything below a matching directory, unless its last segment is a wildcard
+  // (`docs/*` matches the files directly in docs/, not the ones further down)
+  const wildcard = /[*?]/.test(trimmed.split('/').pop() as string);
+  const below = directory ? '/.*' : wildcard ? '' : '(?:/.*)?';
+  return new RegExp(`^${anchored ? '' : '(?:.*/)?'}${source}${below}$`);
+}
+
+/**
+ * Parse the rules of a CODEOWNERS file. GitLab section headers (`[Section]`) are skipped.
+ */
+export function parseCodeowners(content: string): CodeownersRule[] {
+  const rules: CodeownersRule[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/(^|\s)#.*$/, '').trim();
+    if (!line || /^\^?\[/.test(line)) {
+      continue;
+    }
+
+    const [pattern, ...owners] = line.split(/\s+/);
+    rules.push({ pattern, owners, matches: codeownersPatternToRegExp(pattern) });
+  }
+  return rules;
+}
+
+/**
+ * Find the owners of a set of files. As on GitHub, the last matching rule for each file wins.
+ */
+export function findCodeowners(rules: CodeownersRule[], files: string[]): string[] {
+  const owners = new Set<string>();
+  for (const file of files) {
+    const rule = [...rules].reverse().find(candidate => candidate.matches.test(file));
+    rule?.owners.forEach(owner => owners.add(owner));
+  }
+  return [...owners];
+}
+
+/**
+ * Load the rules of the repository's CODEOWNERS file, or none if it has no such file
+ */
+export function loadCodeowners(): CodeownersRule[] {
+  if (!isGitRepository()) {
+    return [];
+  }
+
+  const repoRoot = gitOutput(['rev-parse', '--show-toplevel']);
+  for (const file of CODEOWNERS_FILES) {
+    const fullPath = path.join(repoRoot, file);
+    if (fs.existsSync(fullPath) && fs.statSync(fullPath).isFile()) {
+      return parseCodeowners(fs.readFileSync(fullPath, 'utf8'));
+    }
+  }
+  return [];
+}
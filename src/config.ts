@@ -1,9 +1,159 @@
 import Conf from 'conf';
-import type { Config } from './types.js';
+import os from 'os';
+import path from 'path';
+import type { Config, Profile, ProfileSettings } from './types.js';
+import { loadProjectConfig } from './project-config.js';
+import { detectRemoteRepository } from './remote.js';
 
 export const config = new Conf<Config>({
   projectName: 'linear-pr',
   defaults: {
     defaultBranch: 'development',
   }
-});
\ No newline at end of file
+});
+
+/**
+ * The profile in effect and why it was chosen
+ */
+export interface ActiveProfile {
+  name: string;
+  reason: 'flag' | 'environment' | 'match' | 'default';
+}
+
+// Profile chosen with --profile for this run
+let profileOverride: string | undefined;
+
+// Automatic matches depend on the git remote, so remember them per directory
+const matchCache = new Map<string, string | null>();
+
+/**
+ * Select a profile for the rest of this run, overriding every other selection method
+ */
+export function setProfileOverride(name: string | undefined): void {
+  profileOverride = name;
+}
+
+/**
+ * Get all configured profiles
+ */
+export function getProfiles(): Record<string, Profile> {
+  return config.get('profiles') || {};
+}
+
+/**
+ * Expand a leading `~` in a configured path
+ */
+function expandHome(dir: string): string {
+  return dir === '~' || dir.startsWith('~/') ? path.join(os.homedir(), dir.slice(1)) : dir;
+}
+
+/**
+ * Check a `host/owner/repo` string against a pattern where `*` matches within one segment
+ */
+function matchesRemotePattern(remote: string, pattern: string): boolean {
+  const source = pattern
+    .toLowerCase()
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('[^/]*');
+  return new RegExp(`^${source}$`).test(remote);
+}
+
+/**
+ * Find the profile whose match rules apply to a directory
+ */
+function findMatchingProfile(profiles: Record<string, Profile>, cwd: string): string | null {
+  const cached = matchCache.get(cwd);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  let matched: string | null = null;
+  const remoteRepo = Object.values(profiles).some(profile => profile.match?.remotes?.length)
+    ? detectRemoteRepository()
+    : null;
+  const remote = remoteRepo ? `${remoteRepo.host}/${remoteRepo.owner}/${remoteRepo.repo}`.toLowerCase() : null;
+
+  for (const [name, profile] of Object.entries(profiles)) {
+    const byRemote = remote !== null && (profile.match?.remotes || []).some(pattern => matchesRemotePattern(remote, pattern));
+    const byPath = (profile.match?.paths || []).some(dir => {
+      const relative = path.relative(path.resolve(expandHome(dir)), cwd);
+      return !relative.startsWith('..') && !path.isAbsolute(relative);
+    });
+
+    if (byRemote || byPath) {
+      matched = name;
+      break;
+    }
+  }
+
+  matchCache.set(cwd, matched);
+  return matched;
+}
+
+/**
+ * Work out which profile applies: --profile, then LINEAR_PR_PROFILE,
+ * then the profile matching the repository or directory, then the one chosen with `profile use`
+ */
+export function getActiveProfile(cwd: string = process.cwd()): ActiveProfile | null {
+  const profiles = getProfiles();
+
+  const requested = profileOverride
+    ? { name: profileOverride, reason: 'flag' as const }
+    : process.env.LINEAR_PR_PROFILE
+      ? { name: process.env.LINEAR_PR_PROFILE, reason: 'environment' as const }
+      : null;
+
+  if (requested) {
+    if (!profiles[requested.name]) {
+      throw new Error(`Profile "${requested.name}" does not exist. Run \`linear-pr profile list\` to see the available profiles.`);
+    }
+    return requested;
+  }
+
+  const matched = findMatchingProfile(profiles, cwd);
+  if (matched) {
+    return { name: matched, reason: 'match' };
+  }
+
+  const defaultProfile = config.get('activeProfile');
+  if (defaultProfile && profiles[defaultProfile]) {
+    return { name: defaultProfile, reason: 'default' };
+  }
+
+  return null;
+}
+
+/**
+ * Resolve the effective configuration for a directory: the global store,
+ * then the active profile, then any settings from the nearest project config file
+ */
+export function resolveConfig(cwd: string = process.cwd()): Config {
+  const globalSettings: Config = { ...config.store };
+  delete globalSettings.profiles;
+  delete globalSettings.activeProfile;
+
+  const profile = getActiveProfile(cwd);
+  const profileSettings: Profile = profile ? { ...getProfiles()[profile.name] } : {};
+  delete profileSettings.match;
+
+  const project = loadProjectConfig(cwd);
+
+  return { ...globalSettings, ...profileSettings, ...project?.config };
+}
+
+/**
+ * Save a setting to the active profile, or to the global store when no profile is active
+ */
+export function setSetting<Key extends keyof ProfileSettings>(key: Key, value: ProfileSettings[Key]): void {
+  const profile = getActiveProfile();
+  config.set(profile ? `profiles.${profile.name}.${key}` : key, value);
+}
+
+/**
+ * Remove a setting from the active profile, or from the global store when no profile is active
+ */
+export function deleteSetting(key: keyof ProfileSettings): void {
+  const profile = getActiveProfile();
+  config.delete(profile ? `profiles.${profile.name}.${key}` as keyof Config : key);
+}
@@ -0,0 +1,167 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import YAML from 'yaml';
+import { resolveConfig } from './config.js';
+import { getSecret } from './secrets.js';
+
+/**
+ * Where a credential was found
+ */
+export type CredentialSource = 'environment' | 'gh-cli' | 'secret-store';
+
+/**
+ * A credential together with where it came from
+ */
+export interface Credential {
+  token: string;
+  source: CredentialSource;
+  // Which variable, file or key the credential was read from
+  detail: string;
+  // Linear only: whether the token is a personal API key rather than an OAuth access token
+  isApiKey?: boolean;
+}
+
+/**
+ * Locate the GitHub CLI's hosts file
+ */
+function getGhHostsFile(): string {
+  if (process.env.GH_CONFIG_DIR) {
+    return path.join(process.env.GH_CONFIG_DIR, 'hosts.yml');
+  }
+  const configHome = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+  return path.join(configHome, 'gh', 'hosts.yml');
+}
+
+/**
+ * Read the token stored by `gh auth login` for a host, if it was saved to the hosts file
+ * (newer versions of gh keep it in the system keyring instead)
+ */
+function readGhCliToken(host: string): Credential | null {
+  const hostsFile = getGhHostsFile();
+  if (!fs.existsSync(hostsFile)) {
+    return null;
+  }
+
+  try {
+    const hosts = YAML.parse(fs.readFileSync(hostsFile, 'utf8')) as Record<string, { oauth_token?: string }> | null;
+    const token = hosts?.[host]?.oauth_token;
+    return token ? { token, source: 'gh-cli', detail: hostsFile } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Every available Linear credential, in order of precedence:
+ * the `LINEAR_API_KEY` environment variable, then the encrypted secret store
+ */
+export function listLinearCredentials(): Credential[] {
+  const credentials: Credential[] = [];
+
+  if (process.env.LINEAR_API_KEY) {
+    credentials.push({ token: process.env.LINEAR_API_KEY, source: 'environment', detail: 'LINEAR_API_KEY', isApiKey: true });
+  }
+
+  const storedToken = getSecret('linearAccessToken');
+  if (storedToken) {
+    credentials.push({ token: storedToken, source: 'secret-store', detail: 'linearAccessToken', isApiKey: resolveConfig().isApiKey === true });
+  }
+
+  return credentials;
+}
+
+/**
+ * Every available GitHub credential, in order of precedence:
+ * `GITHUB_TOKEN`/`GH_TOKEN` (plus `GH_ENTERPRISE_TOKEN`/`GITHUB_ENTERPRISE_TOKEN` for Enterprise hosts),
+ * then the GitHub CLI's auth file, then the encrypted secret store
+ */
+export function listGithubCredentials(host = 'github.com'): Credential[] {
+  const credentials: Credential[] = [];
+  const variables = host === 'github.com'
+    ? ['GITHUB_TOKEN', 'GH_TOKEN']
+    : ['GH_ENTERPRISE_TOKEN', 'GITHUB_ENTERPRISE_TOKEN', 'GITHUB_TOKEN', 'GH_TOKEN'];
+
+  for (const variable of variables) {
+    const token = process.env[variable];
+    if (token) {
+      credentials.push({ token, source: 'environment', detail: variable });
+    }
+  }
+
+  const ghCliCredential = readGhCliToken(host);
+  if (ghCliCredential) {
+    credentials.push(ghCliCredential);
+  }
+
+  const storedToken = getSecret('githubToken');
+  if (storedToken) {
+    credentials.push({ token: storedToken, source: 'secret-store', detail: 'githubToken' });
+  }
+
+  return credentials;
+}
+
+/**
+ * Every available GitLab credential, in order of precedence:
+ * `GITLAB_TOKEN`/`GL_TOKEN`, then the encrypted secret store
+ */
+export function listGitlabCredentials(): Credential[] {
+  const credentials: Credential[] = [];
+
+  for (const variable of ['GITLAB_TOKEN', 'GL_TOKEN']) {
+    const token = process.env[variable];
+    if (token) {
+      credentials.push({ token, source: 'environment', detail: variable });
+    }
+  }
+
+  const storedToken = getSecret('gitlabToken');
+  if (storedToken) {
+    credentials.push({ token: storedToken, source: 'secret-store', detail: 'gitlabToken' });
+  }
+
+  return credentials;
+}
+
+/**
+ * Get the Linear credential to use, if any
+ */
+export function getLinearCredential(): Credential | null {
+  return listLinearCredentials()[0] ?? null;
+}
+
+/**
+ * Get the GitHub credential to use, if any
+ */
+export function getGithubCredential(host = 'github.com'): Credential | null {
+  return listGithubCredentials(host)[0] ?? null;
+}
+
+/**
+ * Get the GitLab credential to use, if any
+ */
+export function getGitlabCredential(): Credential | null {
+  return listGitlabCredentials()[0] ?? null;
+}
+
+/**
+ * Show a token with everything but its last few characters hidden
+ */
+export function maskToken(token: string): string {
+  return token.length <= 8 ? '****' : `****${token.slice(-4)}`;
+}
+
+/**
+ * Describe where a credential came from, e.g. "environment variable GITHUB_TOKEN"
+ */
+export function describeCredentialSource(credential: Credential): string {
+  switch (credential.source) {
+  case 'environment':
+    return `environment variable ${credential.detail}`;
+  case 'gh-cli':
+    return `GitHub CLI (${credential.detail})`;
+  case 'secret-store':
+    return 'encrypted secret store';
+  }
+}
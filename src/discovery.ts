@@ -0,0 +1,77 @@
+import { getCodeHostProvider } from './providers/index.js';
+import type { ChangeRequest, ChangeRequestState, CodeHostProvider } from './providers/types.js';
+
+/**
+ * A task to look up change requests for, with the URLs attached to it in Linear
+ */
+export interface TaskLookup {
+  taskId: string;
+  attachmentUrls: string[];
+  // Linear's suggested branch name for the task
+  branchName?: string;
+}
+
+// Which change request represents a task when there are several: active ones first
+const STATE_PRIORITY: Record<ChangeRequestState, number> = {
+  open: 0,
+  draft: 0,
+  merged: 1,
+  closed: 2
+};
+
+/**
+ * Pick the change request that best represents a task: an active one over a merged one
+ * over a closed one, and the newest among equals
+ */
+export function pickPrimaryChangeRequest(changeRequests: ChangeRequest[]): ChangeRequest | null {
+  const sorted = [...changeRequests].sort((a, b) =>
+    STATE_PRIORITY[a.state] - STATE_PRIORITY[b.state] || b.number - a.number
+  );
+  return sorted[0] ?? null;
+}
+
+/**
+ * Find the change request for each task, from the code host's search and from the task's
+ * Linear attachments (which include links made by Linear's own GitHub/GitLab integration).
+ * Active change requests come with their review status.
+ */
+export async function discoverTaskChangeRequests(
+  tasks: TaskLookup[],
+  provider: CodeHostProvider = getCodeHostProvider()
+): Promise<Map<string, ChangeRequest>> {
+  const branchNames = new Map(tasks.flatMap(task => task.branchName ? [[task.taskId, task.branchName] as [string, string]] : []));
+  const found = await provider.findChangeRequestsForTasks(tasks.map(task => task.taskId), branchNames);
+  const result = new Map<string, ChangeRequest>();
+
+  for (const task of tasks) {
+    const candidates = [...(found.get(task.taskId) || [])];
+
+    for (const url of task.attachmentUrls) {
+      const number = provider.parseChangeRequestUrl(url);
+      if (number === null || candidates.some(candidate => candidate.number === number)) {
+        continue;
+      }
+      try {
+        candidates.push(await provider.getChangeRequest(number));
+      } catch {
+        // The attachment may point at a deleted change request or one we can't see
+      }
+    }
+
+    const primary = pickPrimaryChangeRequest(candidates);
+    if (!primary) {
+      continue;
+    }
+
+    if (primary.state === 'open' || primary.state === 'draft') {
+      try {
+        primary.reviewStatus = await provider.getReviewStatus(primary.number);
+      } catch {
+        // Review status is a nice-to-have; show the change request without it
+      }
+    }
+    result.set(task.taskId, primary);
+  }
+
+  return result;
+}
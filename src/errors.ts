@@ -0,0 +1,170 @@
+// Exit codes for each kind of failure, so scripts can react without parsing messages
+export const EXIT_CODES = {
+  general: 1,
+  inputRequired: 3,
+  auth: 4,
+  taskNotFound: 5,
+  notAssigned: 6,
+  repositoryNotConfigured: 7,
+  git: 8,
+  pullRequestExists: 9,
+  rateLimited: 10,
+  // A batch command (`sync`, `restack`) finished, but some of its updates failed
+  partialFailure: 11
+} as const;
+
+/**
+ * Options for a LinearPrError
+ */
+export interface LinearPrErrorOptions {
+  // One line on how to fix the problem, e.g. "Run `linear-pr setup`."
+  hint?: string;
+  // The lower-level error this one was raised for
+  cause?: unknown;
+}
+
+/**
+ * Base class for errors the CLI knows how to report: each has an exit code,
+ * an optional remediation hint and an optional cause
+ */
+export class LinearPrError extends Error {
+  readonly exitCode: number = EXIT_CODES.general;
+  readonly hint?: string;
+  readonly cause?: unknown;
+
+  constructor(message: string, options: LinearPrErrorOptions = {}) {
+    super(message);
+    this.name = 'LinearPrError';
+    this.hint = options.hint;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * Error raised when a prompt would be shown in non-interactive mode and has no default
+ */
+export class InputRequiredError extends LinearPrError {
+  readonly exitCode = EXIT_CODES.inputRequired;
+
+  constructor(public readonly question: string, hint: string) {
+    super(`${question.replace(/:$/, '')} - input required in non-interactive mode`, { hint });
+    this.name = 'InputRequiredError';
+  }
+}
+
+/**
+ * Error raised when credentials are missing, or the service rejects them (e.g. an expired token)
+ */
+export class AuthError extends LinearPrError {
+  readonly exitCode = EXIT_CODES.auth;
+
+  constructor(message: string, options: LinearPrErrorOptions = {}) {
+    super(message, { hint: 'Run `linear-pr setup`, or check `linear-pr auth status`.', ...options });
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * Error raised when a Linear task doesn't exist or can't be seen with the current credentials
+ */
+export class TaskNotFoundError extends LinearPrError {
+  readonly exitCode = EXIT_CODES.taskNotFound;
+
+  constructor(public readonly taskId: string, options: LinearPrErrorOptions = {}) {
+    super(`Task ${taskId} not found`, { hint: 'Check the task ID, and that your Linear account (or profile) can see it.', ...options });
+    this.name = 'TaskNotFoundError';
+  }
+}
+
+/**
+ * Error raised when --enforce-assignment is used with a task assigned to someone else
+ */
+export class NotAssignedError extends LinearPrError {
+  readonly exitCode = EXIT_CODES.notAssigned;
+
+  constructor(public readonly taskId: string) {
+    super(`Task ${taskId} is not assigned to you`, { hint: 'Assign it to yourself in Linear, or leave out --enforce-assignment.' });
+    this.name = 'NotAssignedError';
+  }
+}
+
+/**
+ * Error raised when the repository to open PRs against can't be determined or accessed
+ */
+export class RepositoryNotConfiguredError extends LinearPrError {
+  readonly exitCode = EXIT_CODES.repositoryNotConfigured;
+
+  constructor(message: string, options: LinearPrErrorOptions = {}) {
+    super(message, { hint: 'Run inside a clone with an origin remote, or set "githubRepo" in the project config.', ...options });
+    this.name = 'RepositoryNotConfiguredError';
+  }
+}
+
+/**
+ * Error raised when the branch already has an open PR
+ */
+export class PullRequestExistsError extends LinearPrError {
+  readonly exitCode = EXIT_CODES.pullRequestExists;
+
+  constructor(message: string, options: LinearPrErrorOptions = {}) {
+    super(message, { hint: 'Run `linear-pr status` to see the existing PR.', ...options });
+    this.name = 'PullRequestExistsError';
+  }
+}
+
+/**
+ * Error raised when Linear or the code host rate-limits the requests
+ */
+export class RateLimitError extends LinearPrError {
+  readonly exitCode = EXIT_CODES.rateLimited;
+
+  constructor(service: string, public readonly resetAt: Date | null = null, options: LinearPrErrorOptions = {}) {
+    super(`${service} rate limit exceeded`, {
+      hint: resetAt ? `Try again after ${resetAt.toLocaleTimeString()}.` : 'Wait a few minutes and try again.',
+      ...options
+    });
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * Wrap an error from a lower layer: typed errors pass through unchanged,
+ * anything else becomes a LinearPrError saying what failed, with the original as its cause
+ */
+export function wrapError(message: string, error: unknown): LinearPrError {
+  return error instanceof LinearPrError ? error : new LinearPrError(message, { cause: error });
+}
+
+/**
+ * Everything the CLI reports about an error
+ */
+export interface ErrorReport {
+  name: string;
+  message: string;
+  exitCode: number;
+  hint?: string;
+  // Messages of the errors that led to this one, outermost first
+  causes: string[];
+}
+
+/**
+ * Describe an error and its cause chain for reporting
+ */
+export function describeError(error: unknown): ErrorReport {
+  const causes: string[] = [];
+  let cause = error instanceof LinearPrError ? error.cause : undefined;
+  while (cause !== undefined && causes.length < 10) {
+    causes.push(cause instanceof Error ? cause.message : String(cause));
+    cause = cause instanceof LinearPrError ? cause.cause : undefined;
+  }
+
+  if (error instanceof LinearPrError) {
+    return { name: error.name, message: error.message, exitCode: error.exitCode, hint: error.hint, causes };
+  }
+  return {
+    name: error instanceof Error ? error.name : 'Error',
+    message: error instanceof Error ? error.message : String(error),
+    exitCode: EXIT_CODES.general,
+    causes
+  };
+}
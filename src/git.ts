@@ -0,0 +1,393 @@
+import { spawn, spawnSync } from 'child_process';
+import chalk from 'chalk';
+import { resolveConfig } from './config.js';
+import { LinearPrError, EXIT_CODES } from './errors.js';
+import { log } from './logger.js';
+
+/**
+ * The captured output of a git command
+ */
+export interface GitResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+}
+
+/**
+ * Options for running a git command
+ */
+export interface GitOptions {
+  cwd?: string;
+  // Return a failed result instead of throwing (for commands used as checks)
+  check?: boolean;
+}
+
+/**
+ * Error raised when a git command fails, with what git printed
+ */
+export class GitError extends LinearPrError {
+  readonly exitCode = EXIT_CODES.git;
+
+  // `status` is git's own exit status; `exitCode` is the CLI's
+  constructor(message: string, public readonly args: string[], public readonly stderr = '', public readonly status: number | null = null) {
+    super(message);
+    this.name = 'GitError';
+  }
+}
+
+/**
+ * Error raised outside a git repository
+ */
+export class NotARepositoryError extends GitError {
+  name = 'NotARepositoryError';
+  readonly hint = 'Run linear-pr inside a git repository.';
+}
+
+/**
+ * Error raised when uncommitted changes would be overwritten
+ */
+export class DirtyWorkingTreeError extends GitError {
+  name = 'DirtyWorkingTreeError';
+  readonly hint = 'Commit or stash your changes, then try again.';
+}
+
+/**
+ * Error raised when the remote has commits that a push or fast-forward would lose
+ */
+export class NonFastForwardError extends GitError {
+  name = 'NonFastForwardError';
+  readonly hint = 'Pull or rebase onto the remote branch, then try again.';
+}
+
+/**
+ * Error raised when the remote rejects the credentials
+ */
+export class GitAuthError extends GitError {
+  name = 'GitAuthError';
+  readonly hint = 'Check the credentials git uses for the remote, e.g. with `git fetch`.';
+}
+
+/**
+ * Error raised for a branch, commit or other ref that doesn't exist
+ */
+export class MissingRefError extends GitError {
+  name = 'MissingRefError';
+  readonly hint = 'Check the branch name, and run `git fetch` if it only exists on the remote.';
+}
+
+type GitErrorClass = new (message: string, args: string[], stderr?: string, status?: number | null) => GitError;
+
+// How each kind of failure shows up in git's stderr, checked in order
+const ERROR_PATTERNS: [RegExp, GitErrorClass][] = [
+  [/not a git repository/i, NotARepositoryError],
+  [/local changes to the following files would be overwritten|untracked working tree files would be overwritten|commit your changes or stash them/i, DirtyWorkingTreeError],
+  [/non-fast-forward|\(fetch first\)|not possible to fast-forward/i, NonFastForwardError],
+  [/authentication failed|could not read (username|password)|permission denied \(publickey|access denied|returned error: 40[13]/i, GitAuthError],
+  [/couldn't find remote ref|unknown revision|not a valid (object name|ref)|invalid reference|bad revision|did not match any file\(s\) known to git/i, MissingRefError]
+];
+
+/**
+ * Format git arguments as a command line for messages and plans; it is never run through a shell
+ */
+export function formatGitCommand(args: string[]): string {
+  const quoted = args.map(arg => /^[\w./:@^=+-]+$/.test(arg) ? arg : `"${arg.replace(/(["\\$`])/g, '\\$1')}"`);
+  return ['git', ...quoted].join(' ');
+}
+
+/**
+ * Build the error for a failed git command, picking the class from what git printed.
+ * The message keeps git's own "fatal:"/"error:" lines, or else its last line.
+ */
+export function toGitError(args: string[], stderr: string, status: number | null): GitError {
+  const lines = stderr.split('\n').map(line => line.trim()).filter(Boolean);
+  const errorLines = lines.filter(line => /^(fatal|error):/i.test(line));
+  const detail = (errorLines.length > 0 ? errorLines : lines.slice(-1)).join(' ') || `exit code ${status}`;
+  const ErrorClass = ERROR_PATTERNS.find(([pattern]) => pattern.test(stderr))?.[1] ?? GitError;
+  return new ErrorClass(`\`${formatGitCommand(args)}\` failed: ${detail}`, args, stderr.trim(), status);
+}
+
+/**
+ * Run git with an argument list (no shell, so names from Linear or users can't inject anything).
+ * Throws a GitError subclass on failure unless `check` is false.
+ */
+export function runGit(args: string[], options: GitOptions = {}): GitResult {
+  const result = spawnSync('git', args, { cwd: options.cwd, encoding: 'utf8', stdio: ['ignore', 'pipe', 'pipe'] });
+  if (result.error) {
+    throw new GitError(`Could not run git: ${result.error.message}`, args);
+  }
+
+  const output = { stdout: result.stdout.trim(), stderr: result.stderr, exitCode: result.status ?? 1 };
+  if (output.exitCode !== 0 && options.check !== false) {
+    throw toGitError(args, output.stderr, result.status);
+  }
+  return output;
+}
+
+/**
+ * Run git like runGit without blocking, for long operations such as fetches and pushes
+ */
+export function runGitAsync(args: string[], options: GitOptions = {}): Promise<GitResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn('git', args, { cwd: options.cwd, stdio: ['ignore', 'pipe', 'pipe'] });
+    let stdout = '';
+    let stderr = '';
+    child.stdout.setEncoding('utf8');
+    child.stderr.setEncoding('utf8');
+    child.stdout.on('data', chunk => { stdout += chunk; });
+    child.stderr.on('data', chunk => { stderr += chunk; });
+    child.on('error', error => reject(new GitError(`Could not run git: ${error.message}`, args)));
+    child.on('close', code => {
+      const output = { stdout: stdout.trim(), stderr, exitCode: code ?? 1 };
+      if (output.exitCode !== 0 && options.check !== false) {
+        reject(toGitError(args, stderr, code));
+      } else {
+        resolve(output);
+      }
+    });
+  });
+}
+
+/**
+ * Run git and return its trimmed stdout
+ */
+export function gitOutput(args: string[], options: Omit<GitOptions, 'check'> = {}): string {
+  return runGit(args, options).stdout;
+}
+
+/**
+ * Check if we're in a git repository
+ */
+export function isGitRepository(): boolean {
+  try {
+    return runGit(['rev-parse', '--is-inside-work-tree'], { check: false }).exitCode === 0;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the current git branch name
+ */
+export function getCurrentBranch(): string {
+  return gitOutput(['branch', '--show-current']);
+}
+
+/**
+ * Check if a ref such as refs/heads/main exists
+ */
+function refExists(ref: string): boolean {
+  return runGit(['show-ref', '--verify', '--quiet', ref], { check: false }).exitCode === 0;
+}
+
+/**
+ * Check if a branch exists locally
+ */
+export function branchExistsLocally(branchName: string): boolean {
+  try {
+    return refExists(`refs/heads/${branchName}`);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check if a branch exists on the remote, fetching first so the answer is current
+ */
+export function branchExistsOnRemote(branchName: string, remote = 'origin'): boolean {
+  try {
+    runGit(['fetch', remote]);
+    return refExists(`refs/remotes/${remote}/${branchName}`);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Where a branch made by createBranch comes from: an existing local branch, an existing remote branch,
+ * or a new branch off the updated base branch
+ */
+export type BranchSource = 'local' | 'remote' | 'base';
+
+/**
+ * Work out the git commands createBranch will run, without running any of them.
+ * The remote is asked directly instead of fetched, so nothing changes.
+ */
+export function planCreateBranch(branchName: string, baseBranch: string = resolveConfig().defaultBranch || 'development'): { source: BranchSource; commands: string[][] } {
+  if (branchExistsLocally(branchName)) {
+    return { source: 'local', commands: [['checkout', branchName]] };
+  }
+
+  // createBranch fetches to check the remote for the branch
+  let onRemote = false;
+  try {
+    onRemote = gitOutput(['ls-remote', '--heads', 'origin', `refs/heads/${branchName}`]) !== '';
+  } catch {
+    // No remote, or it can't be reached; createBranch's check fails the same way
+  }
+  if (onRemote) {
+    return { source: 'remote', commands: [['fetch', 'origin'], ['checkout', '-b', branchName, `origin/${branchName}`]] };
+  }
+
+  const commands = [['fetch', 'origin'], ['fetch', 'origin', baseBranch]];
+  if (!branchExistsLocally(baseBranch)) {
+    commands.push(['branch', baseBranch, `origin/${baseBranch}`]);
+  } else if (getCurrentBranch() === baseBranch) {
+    commands.push(['pull', 'origin']);
+  } else {
+    commands.push(['fetch', 'origin', `${baseBranch}:${baseBranch}`]);
+  }
+  commands.push(['checkout', '-b', branchName, `origin/${baseBranch}`]);
+  return { source: 'base', commands };
+}
+
+/**
+ * Create a branch for a Linear task: check out an existing local or remote branch,
+ * or branch off the freshly updated base branch
+ */
+export async function createBranch(branchName: string, baseBranch: string = resolveConfig().defaultBranch || 'development'): Promise<void> {
+  if (!isGitRepository()) {
+    throw new NotARepositoryError('Not in a git repository', []);
+  }
+
+  // Check if the branch already exists locally or remotely
+  if (branchExistsLocally(branchName)) {
+    log(chalk.yellow(`Branch "${branchName}" already exists locally.`));
+    runGit(['checkout', branchName]);
+    return;
+  }
+
+  if (branchExistsOnRemote(branchName)) {
+    log(chalk.yellow(`Branch "${branchName}" exists on remote.`));
+    runGit(['checkout', '-b', branchName, `origin/${branchName}`]);
+    return;
+  }
+
+  // Always update the base branch to the latest version
+  try {
+    // Fetch the latest from the default branch
+    await runGitAsync(['fetch', 'origin', baseBranch]);
+
+    // Make sure we have a local copy of the base branch
+    if (!branchExistsLocally(baseBranch)) {
+      runGit(['branch', baseBranch, `origin/${baseBranch}`]);
+    } else if (getCurrentBranch() === baseBranch) {
+      // If the local base branch is checked out, pull it
+      await runGitAsync(['pull', 'origin']);
+    } else {
+      // Otherwise fast-forward it to match remote
+      await runGitAsync(['fetch', 'origin', `${baseBranch}:${baseBranch}`]);
+    }
+
+    // Create and checkout the new branch from the updated base branch
+    runGit(['checkout', '-b', branchName, `origin/${baseBranch}`]);
+  } catch (error) {
+    // Only a base that couldn't be updated (e.g. offline, or a local base that has diverged) is worked
+    // around; uncommitted changes, rejected credentials and a missing base branch need the user
+    if (error instanceof DirtyWorkingTreeError || error instanceof GitAuthError || error instanceof MissingRefError || !(error instanceof GitError)) {
+      throw error;
+    }
+
+    // Branch off what we have of the base branch: the remote-tracking branch, else the local one
+    for (const base of [`origin/${baseBranch}`, baseBranch]) {
+      if (runGit(['checkout', '-b', branchName, base], { check: false }).exitCode === 0) {
+        console.warn(chalk.yellow(`Could not update "${baseBranch}" (${error.message}); branched off ${base} as it is locally.`));
+        return;
+      }
+    }
+    throw error;
+  }
+}
+
+/**
+ * The git arguments that push a branch and set its upstream
+ */
+export function getPushArgs(branchName: string, remote = 'origin'): string[] {
+  return ['push', '-u', remote, branchName];
+}
+
+/**
+ * Push a branch to the remote and set it as the upstream
+ */
+export function pushBranch(branchName: string, remote = 'origin'): void {
+  runGit(getPushArgs(branchName, remote));
+}
+
+/**
+ * The git arguments that create the empty commit a new pull/merge request needs
+ */
+export function getSampleCommitArgs(taskId: string): string[] {
+  return ['commit', '--allow-empty', '-m', `chore: Draft PR for ${taskId}`];
+}
+
+/**
+ * Count the commits a ref has that the remote base branch doesn't.
+ * Returns null if either isn't known locally.
+ */
+export function countCommitsAhead(baseBranch: string, ref = 'HEAD'): number | null {
+  try {
+    return parseInt(gitOutput(['rev-list', ref, `^origin/${baseBranch}`, '--count']), 10);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * List the local branches and the origin remote's branches, without the `origin/` prefix
+ */
+export function listBranches(): string[] {
+  try {
+    const names = gitOutput(['for-each-ref', '--format=%(refname)', 'refs/heads', 'refs/remotes/origin'])
+      .split('\n')
+      .filter(Boolean)
+      .map(ref => ref.replace(/^refs\/(heads|remotes\/origin)\//, ''))
+      .filter(name => name !== 'HEAD');
+    return [...new Set(names)];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * List the files a ref changes compared to where it forked from the remote base branch.
+ * Returns an empty list if the base branch isn't known locally.
+ */
+export function getChangedFiles(baseBranch: string, ref = 'HEAD'): string[] {
+  try {
+    return gitOutput(['diff', '--name-only', `origin/${baseBranch}...${ref}`]).split('\n').filter(Boolean);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Create an empty commit if the branch has no commits beyond the base branch yet,
+ * since a pull/merge request can't be opened without one
+ */
+export function createSampleCommitIfNeeded(taskId: string, baseBranch: string): void {
+  try {
+    // If we have commits already, no need to create more; if they can't be counted, create one anyway
+    if ((countCommitsAhead(baseBranch) ?? 0) > 0) {
+      return;
+    }
+
+    // Create an empty commit with --allow-empty
+    runGit(getSampleCommitArgs(taskId));
+  } catch (error) {
+    console.warn(chalk.yellow(`Error creating empty commit: ${error instanceof Error ? error.message : String(error)}`));
+  }
+}
+
+/**
+ * Count the commits a ref has that the remote base branch doesn't (ahead), and the reverse (behind).
+ * Returns null if either isn't known locally.
+ */
+export function getAheadBehind(baseBranch: string, ref = 'HEAD', remote = 'origin'): { ahead: number; behind: number } | null {
+  try {
+    const [behind, ahead] = gitOutput(['rev-list', '--left-right', '--count', `${remote}/${baseBranch}...${ref}`])
+      .split(/\s+/)
+      .map(count => parseInt(count, 10));
+    return { ahead, behind };
+  } catch {
+    return null;
+  }
+}
@@ -1,74 +1,159 @@
-import { Octokit } from 'octokit';
-import inquirer from 'inquirer';
+import { Octokit, RequestError } from 'octokit';
 import chalk from 'chalk';
-import { config } from './config.js';
-import { isGitRepository, runGitCommand } from './utils.js';
+import { resolveConfig, setSetting } from './config.js';
+import { containsTaskId } from './utils.js';
+import { isGitRepository } from './git.js';
+import { detectRemoteRepository } from './remote.js';
+import { getGithubCredential, describeCredentialSource } from './credentials.js';
+import { setSecret } from './secrets.js';
+import { prompt } from './prompt.js';
+import { LinearPrError, AuthError, RepositoryNotConfiguredError, PullRequestExistsError, RateLimitError, wrapError } from './errors.js';
+import type {
+  ChangeRequest,
+  ChangeRequestState,
+  CreateChangeRequestParams,
+  UpdateChangeRequestParams,
+  ReviewStatus,
+  ChangeRequestDetails,
+  CheckResult,
+  ReviewDecision
+} from './providers/types.js';
+import { log } from './logger.js';
+
+// GitHub search allows at most five OR operators per query
+const SEARCH_BATCH_SIZE = 6;
+
+// Only warn once per run about a remote/config mismatch
+let repoMismatchWarned = false;
+
+// Public GitHub; any other host is treated as a GitHub Enterprise Server instance
+export const GITHUB_DOT_COM = 'github.com';
 
 /**
- * Get or create an Octokit client using stored token
+ * Get the GitHub host: the configured `githubHost`, else the origin remote's host
+ * (SSH aliases without a domain, like `github-work`, are assumed to point at github.com)
+ */
+export function getGithubHost(): string {
+  const configuredHost = resolveConfig().githubHost;
+  if (configuredHost) {
+    return configuredHost.toLowerCase();
+  }
+  
+  const remoteHost = detectRemoteRepository()?.host;
+  if (!remoteHost || !remoteHost.includes('.') || remoteHost === 'ssh.github.com') {
+    return GITHUB_DOT_COM;
+  }
+  return remoteHost;
+}
+
+/**
+ * Get the REST API base URL for a GitHub host: the configured `githubApiUrl`,
+ * else api.github.com or the Enterprise Server default of https://<host>/api/v3
+ */
+export function getGithubApiUrl(host: string = getGithubHost()): string {
+  const configuredUrl = resolveConfig().githubApiUrl;
+  if (configuredUrl) {
+    return configuredUrl.replace(/\/+$/, '');
+  }
+  return host === GITHUB_DOT_COM ? 'https://api.github.com' : `https://${host}/api/v3`;
+}
+
+/**
+ * Build a regular expression that matches pull request URLs on the GitHub host,
+ * capturing the owner, repository and number
+ */
+export function getPullRequestUrlPattern(host: string = getGithubHost()): RegExp {
+  const escapedHost = host.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`https://${escapedHost}/([^/\\s]+)/([^/\\s]+)/pull/(\\d+)`, 'i');
+}
+
+/**
+ * Create an Octokit client for a token against the configured GitHub host
+ */
+export function createOctokit(token: string, host: string = getGithubHost()): Octokit {
+  return new Octokit({ auth: token, baseUrl: getGithubApiUrl(host) });
+}
+
+/**
+ * Get or create an Octokit client using the first available credential
+ * (environment, then the GitHub CLI, then the encrypted secret store)
  */
 export function getGithubClient(): Octokit {
-  const token = config.get('githubToken');
+  const host = getGithubHost();
+  const credential = getGithubCredential(host);
   
-  if (!token) {
-    throw new Error('GitHub is not set up. Run `linear-pr setup` first.');
+  if (!credential) {
+    throw new AuthError(`GitHub (${host}) is not set up`, { hint: 'Run `linear-pr setup`, or set GITHUB_TOKEN.' });
   }
   
-  return new Octokit({ auth: token });
+  return createOctokit(credential.token, host);
 }
 
 /**
- * Set up GitHub authentication by prompting for personal access token
+ * Set up GitHub authentication by prompting for personal access token,
+ * unless a token is already available from the environment or the GitHub CLI
  */
 export async function setupGithub(): Promise<void> {
-  console.log(chalk.blue('Setting up GitHub integration'));
-  console.log(chalk.yellow('To create a GitHub personal access token:'));
-  console.log('1. Go to https://github.com/settings/tokens');
-  console.log('2. Click "Generate new token" (classic)');
-  console.log('3. Select at least the "repo" scope');
-  console.log('4. Create and copy your token\n');
-  
-  const { token } = await inquirer.prompt([
-    {
-      type: 'password',
-      name: 'token',
-      message: 'Enter your GitHub personal access token:',
-      validate: (input) => !!input || 'Token is required'
-    }
-  ]);
+  const host = getGithubHost();
+  log(chalk.blue(`Setting up GitHub integration (${host})`));
+  
+  const existing = getGithubCredential(host);
+  const useExisting = existing !== null && existing.source !== 'secret-store';
+  let token: string;
+  
+  if (useExisting) {
+    log(chalk.green(`Using GitHub token from ${describeCredentialSource(existing)}`));
+    token = existing.token;
+  } else {
+    log(chalk.yellow('To create a GitHub personal access token:'));
+    log(`1. Go to https://${host}/settings/tokens`);
+    log('2. Click "Generate new token" (classic)');
+    log('3. Select at least the "repo" scope');
+    log('4. Create and copy your token\n');
+    
+    const answers = await prompt([
+      {
+        type: 'password',
+        name: 'token',
+        message: 'Enter your GitHub personal access token:',
+        validate: (input) => !!input || 'Token is required'
+      }
+    ], { hint: `Set GITHUB_TOKEN${host === GITHUB_DOT_COM ? '' : ' or GH_ENTERPRISE_TOKEN'}, or pass --github-token.` });
+    token = answers.token;
+  }
   
   // Verify the token works
   try {
-    const octokit = new Octokit({ auth: token });
+    const octokit = createOctokit(token, host);
     const { data: user } = await octokit.rest.users.getAuthenticated();
-    console.log(chalk.green(`✅ Connected to GitHub as ${user.login}`));
+    log(chalk.green(`✅ Connected to GitHub as ${user.login}`));
     
-    // Save the token
-    config.set('githubToken', token);
-    config.set('githubUsername', user.login);
+    // Save the token, unless it comes from somewhere we already read it from
+    if (!useExisting) {
+      setSecret('githubToken', token);
+    }
+    setSetting('githubUsername', user.login);
     
     // If we're in a git repo, try to get the default repository
     if (isGitRepository()) {
       try {
-        const remoteUrl = runGitCommand('git remote get-url origin');
-        const repoMatch = remoteUrl.match(/github\.com[/:]([\w-]+)\/([\w-]+)(?:\.git)?$/i);
+        const remoteRepo = detectRemoteRepository();
         
-        if (repoMatch) {
-          const [, owner, repo] = repoMatch;
-          const repoPath = `${owner}/${repo}`;
+        if (remoteRepo) {
+          const repoPath = `${remoteRepo.owner}/${remoteRepo.repo}`;
           
-          const { confirmRepo } = await inquirer.prompt([
+          const { confirmRepo } = await prompt([
             {
               type: 'confirm',
               name: 'confirmRepo',
               message: `Use "${repoPath}" as the default GitHub repository?`,
               default: true
             }
-          ]);
+          ], { defaults: { confirmRepo: true }, hint: 'Set "githubRepo" in the project config.' });
           
           if (confirmRepo) {
-            config.set('githubRepo', repoPath);
-            console.log(chalk.green(`Default GitHub repository set to ${repoPath}`));
+            setSetting('githubRepo', repoPath);
+            log(chalk.green(`Default GitHub repository set to ${repoPath}`));
           } else {
             await promptForRepository();
           }
@@ -76,6 +161,9 @@ export async function setupGithub(): Promise<void> {
           await promptForRepository();
         }
       } catch (error) {
+        if (error instanceof LinearPrError) {
+          throw error;
+        }
         await promptForRepository();
       }
     } else {
@@ -83,12 +171,10 @@ export async function setupGithub(): Promise<void> {
     }
     
     // Set default branch to development
-    config.set('defaultBranch', 'development');
-    console.log(chalk.green(`Default base branch set to development`));
+    setSetting('defaultBranch', 'development');
+    log(chalk.green('Default base branch set to development'));
   } catch (error) {
-    console.error(chalk.red('Error connecting to GitHub:'), 
-      error instanceof Error ? error.message : 'Invalid token');
-    throw new Error('Failed to connect to GitHub');
+    throw toGithubError(error, 'Failed to connect to GitHub');
   }
 }
 
@@ -96,168 +182,246 @@ export async function setupGithub(): Promise<void> {
  * Prompt the user to enter a GitHub repository
  */
 async function promptForRepository(): Promise<void> {
-  const { repoPath } = await inquirer.prompt([
+  const { repoPath } = await prompt([
     {
       type: 'input',
       name: 'repoPath',
       message: 'Enter your GitHub repository (owner/repo):',
       validate: (input) => {
-        return /^[\w-]+\/[\w-]+$/.test(input) || 'Please enter a valid repository path (owner/repo)';
+        return /^[\w.-]+\/[\w.-]+$/.test(input) || 'Please enter a valid repository path (owner/repo)';
       }
     }
-  ]);
+  ], { hint: 'Run it inside a clone with an origin remote, or set "githubRepo" in the project config.' });
   
-  config.set('githubRepo', repoPath);
-  console.log(chalk.green(`Default GitHub repository set to ${repoPath}`));
+  setSetting('githubRepo', repoPath);
+  log(chalk.green(`Default GitHub repository set to ${repoPath}`));
 }
 
 /**
- * Check if a branch exists locally
+ * Resolve the GitHub repository (owner/repo) to open PRs against.
+ * The current checkout's origin remote wins; the configured repository is only a fallback.
  */
-function branchExistsLocally(branchName: string): boolean {
-  try {
-    const branches = runGitCommand('git branch --list').split('\n').map(b => b.trim().replace(/^\*\s+/, ''));
-    return branches.includes(branchName);
-  } catch (error) {
-    return false;
+export function resolveGithubRepo(): string {
+  const configuredRepo = resolveConfig().githubRepo;
+  const remoteRepo = detectRemoteRepository();
+  
+  if (remoteRepo) {
+    const detectedRepo = `${remoteRepo.owner}/${remoteRepo.repo}`;
+    
+    if (configuredRepo && configuredRepo.toLowerCase() !== detectedRepo.toLowerCase() && !repoMismatchWarned) {
+      repoMismatchWarned = true;
+      console.warn(chalk.yellow.bold(`⚠ The current checkout's origin points to "${detectedRepo}", but the configured repository is "${configuredRepo}".`));
+      console.warn(chalk.yellow.bold(`⚠ Using "${detectedRepo}". Update your config if this is not what you want.`));
+    }
+    
+    return detectedRepo;
+  }
+  
+  if (!configuredRepo) {
+    throw new RepositoryNotConfiguredError('GitHub repository not configured and could not be detected from the origin remote');
   }
+  
+  return configuredRepo;
+}
+
+// The parts of a pull request from the REST API that the CLI uses
+interface PullRequestData {
+  number: number;
+  html_url: string;
+  title: string;
+  body: string | null;
+  state: string;
+  draft?: boolean;
+  merged_at: string | null;
+  node_id: string;
+  head: { ref: string };
+  base: { ref: string };
+}
+
+// The same fields from the GraphQL API, which can return them from a search
+const GRAPHQL_PULL_REQUEST_FIELDS = 'number url title body state isDraft mergedAt id headRefName baseRefName';
+
+interface GraphqlPullRequest {
+  number: number;
+  url: string;
+  title: string;
+  body: string;
+  state: 'OPEN' | 'CLOSED' | 'MERGED';
+  isDraft: boolean;
+  mergedAt: string | null;
+  id: string;
+  headRefName: string;
+  baseRefName: string;
 }
 
 /**
- * Check if a branch exists on the remote
+ * Convert a pull request from the GraphQL API into the REST shape
  */
-function branchExistsOnRemote(branchName: string): boolean {
-  try {
-    runGitCommand('git fetch');
-    const remoteBranches = runGitCommand('git branch -r').split('\n').map(b => b.trim().replace(/^origin\//, ''));
-    return remoteBranches.includes(branchName);
-  } catch (error) {
-    return false;
+function fromGraphqlPullRequest(pullRequest: GraphqlPullRequest): PullRequestData {
+  return {
+    number: pullRequest.number,
+    html_url: pullRequest.url,
+    title: pullRequest.title,
+    body: pullRequest.body,
+    state: pullRequest.state === 'OPEN' ? 'open' : 'closed',
+    draft: pullRequest.isDraft,
+    merged_at: pullRequest.mergedAt,
+    node_id: pullRequest.id,
+    head: { ref: pullRequest.headRefName },
+    base: { ref: pullRequest.baseRefName }
+  };
+}
+
+/**
+ * Convert a pull request from the REST API into the provider-neutral shape
+ */
+function toChangeRequest(pullRequest: PullRequestData): ChangeRequest {
+  let state: ChangeRequestState = 'open';
+  if (pullRequest.merged_at) {
+    state = 'merged';
+  } else if (pullRequest.state === 'closed') {
+    state = 'closed';
+  } else if (pullRequest.draft) {
+    state = 'draft';
   }
+  
+  return {
+    number: pullRequest.number,
+    url: pullRequest.html_url,
+    title: pullRequest.title,
+    state,
+    sourceBranch: pullRequest.head.ref,
+    targetBranch: pullRequest.base.ref,
+    body: pullRequest.body || ''
+  };
 }
 
 /**
- * Create a sample commit if there are no changes yet
+ * Split the resolved repository into owner and name
  */
-async function createSampleCommitIfNeeded(taskId: string, description: string): Promise<void> {
-  try {
-    // Check if there are any commits on this branch that aren't on the base branch
-    try {
-      const commitDiff = runGitCommand('git rev-list HEAD ^origin/development --count');
-      // If we have commits already, no need to create more
-      if (parseInt(commitDiff.trim(), 10) > 0) {
-        return;
-      }
-    } catch (error) {
-      // If the command fails, continue with creating a commit
-    }
+function getRepoParts(): { owner: string; repo: string } {
+  const [owner, repo] = resolveGithubRepo().split('/');
+  return { owner, repo };
+}
 
-    // Create an empty commit with --allow-empty
-    runGitCommand(`git commit --allow-empty -m "chore: Draft PR for ${taskId}"`);
-  } catch (error) {
-    console.warn(chalk.yellow(`Error creating empty commit: ${error instanceof Error ? error.message : String(error)}`));
+// The body GitHub sends with a failed request, e.g. for 422 validation errors
+interface GithubErrorBody {
+  message?: string;
+  errors?: ({ message?: string; code?: string; field?: string } | string)[];
+}
+
+/**
+ * Turn an Octokit RequestError into a typed error, using the status, the rate limit headers
+ * and GitHub's own error messages. Anything else is wrapped with `message`.
+ */
+export function toGithubError(error: unknown, message: string): LinearPrError {
+  if (!(error instanceof RequestError)) {
+    return wrapError(message, error);
+  }
+
+  const body = (error.response?.data ?? {}) as GithubErrorBody;
+  const details = (body.errors ?? [])
+    .map(item => typeof item === 'string' ? item : item.message || [item.field, item.code].filter(Boolean).join(' '))
+    .filter(Boolean);
+  const detail = details.length > 0 ? details.join('; ') : body.message || error.message;
+  const headers = error.response?.headers ?? {};
+
+  if (error.status === 401) {
+    return new AuthError(`GitHub rejected the token: ${detail}`, { cause: error });
   }
+  if (error.status === 429 || (error.status === 403 && (headers['x-ratelimit-remaining'] === '0' || /rate limit/i.test(detail)))) {
+    const reset = Number(headers['x-ratelimit-reset']);
+    return new RateLimitError('GitHub', reset ? new Date(reset * 1000) : null, { cause: error });
+  }
+  if (error.status === 404) {
+    return new RepositoryNotConfiguredError(`${message}: repository not found, or the token can't access it`, { cause: error });
+  }
+  if (error.status === 422 && /already exists/i.test(detail)) {
+    return new PullRequestExistsError(detail, { cause: error });
+  }
+  return new LinearPrError(`${message}: ${detail}`, { cause: error });
 }
 
 /**
- * Create a branch for a Linear task
+ * Of the requested labels, keep those the repository has (in its spelling), and report the rest
  */
-export async function createBranch(branchName: string, baseBranch: string = config.get('defaultBranch') || 'development'): Promise<void> {
-  if (!isGitRepository()) {
-    throw new Error('Not in a git repository');
+async function findExistingLabels(labels: string[]): Promise<{ existing: string[]; missing: string[] }> {
+  const octokit = getGithubClient();
+  const repoLabels = await octokit.paginate(octokit.rest.issues.listLabelsForRepo, { ...getRepoParts(), per_page: 100 });
+  const existing: string[] = [];
+  const missing: string[] = [];
+  for (const label of labels) {
+    const match = repoLabels.find(repoLabel => repoLabel.name.toLowerCase() === label.toLowerCase());
+    if (match) {
+      existing.push(match.name);
+    } else {
+      missing.push(label);
+    }
   }
+  return { existing, missing };
+}
+
+/**
+ * Add labels, reviewers and assignees to a new pull request. The pull request already exists,
+ * so each failure only warns.
+ */
+async function addPullRequestMetadata(number: number, author: string | undefined, params: CreateChangeRequestParams): Promise<void> {
+  const octokit = getGithubClient();
+  const { owner, repo } = getRepoParts();
+  const warn = (what: string, error: unknown) =>
+    console.warn(chalk.yellow(`Could not ${what}: ${toGithubError(error, 'GitHub request failed').message}`));
   
-  try {
-    // Check if the branch already exists locally or remotely
-    if (branchExistsLocally(branchName)) {
-      console.log(chalk.yellow(`Branch "${branchName}" already exists locally.`));
-      runGitCommand(`git checkout "${branchName}"`);
-      return;
-    }
-    
-    if (branchExistsOnRemote(branchName)) {
-      console.log(chalk.yellow(`Branch "${branchName}" exists on remote.`));
-      runGitCommand(`git checkout -b "${branchName}" "origin/${branchName}"`);
-      return;
-    }
-    
-    // Always update the base branch to the latest version
+  if (params.labels?.length) {
     try {
-      // Fetch the latest from the default branch
-      runGitCommand(`git fetch origin ${baseBranch}`);
-      
-      // Make sure we have a local copy of the base branch
-      if (!branchExistsLocally(baseBranch)) {
-        runGitCommand(`git branch ${baseBranch} origin/${baseBranch}`);
-      } else {
-        // If the local base branch exists, update it to match remote
-        const currentBranch = runGitCommand('git branch --show-current');
-        if (currentBranch === baseBranch) {
-          runGitCommand('git pull origin');
-        } else {
-          runGitCommand(`git fetch origin ${baseBranch}:${baseBranch}`);
+      // Adding a label GitHub doesn't know creates it, so filter first unless that's wanted
+      let labels = params.labels;
+      if (!params.createMissingLabels) {
+        const { existing, missing } = await findExistingLabels(labels);
+        if (missing.length > 0) {
+          console.warn(chalk.yellow(`Skipping labels that don't exist in ${owner}/${repo}: ${missing.join(', ')} (set "createMissingLabels" to create them)`));
         }
+        labels = existing;
       }
-      
-      // Create and checkout the new branch from the updated base branch
-      runGitCommand(`git checkout -b "${branchName}" origin/${baseBranch}`);
-    } catch (error) {
-      // Try alternative branch creation methods
-      try {
-        // Try from origin/baseBranch directly
-        runGitCommand(`git checkout -b "${branchName}" origin/${baseBranch}`);
-      } catch (originError) {
-        try {
-          // Try from local baseBranch
-          runGitCommand(`git checkout -b "${branchName}" ${baseBranch}`);
-        } catch (localError) {
-          // Last resort: create from current HEAD
-          runGitCommand(`git checkout -b "${branchName}"`);
-        }
+      if (labels.length > 0) {
+        await octokit.rest.issues.addLabels({ owner, repo, issue_number: number, labels });
       }
+    } catch (error) {
+      warn('add labels', error);
+    }
+  }
+  
+  // GitHub refuses review requests for the pull request's own author
+  const reviewers = (params.reviewers || []).filter(reviewer => reviewer.toLowerCase() !== author?.toLowerCase());
+  const teamReviewers = params.teamReviewers || [];
+  if (reviewers.length > 0 || teamReviewers.length > 0) {
+    try {
+      await octokit.rest.pulls.requestReviewers({ owner, repo, pull_number: number, reviewers, team_reviewers: teamReviewers });
+    } catch (error) {
+      warn('request reviewers', error);
+    }
+  }
+  
+  if (params.assignees?.length) {
+    try {
+      await octokit.rest.issues.addAssignees({ owner, repo, issue_number: number, assignees: params.assignees });
+    } catch (error) {
+      warn('add assignees', error);
     }
-  } catch (error) {
-    throw new Error(`Failed to create branch: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
 /**
- * Create a GitHub pull request
+ * Open a pull request for a branch that has already been pushed,
+ * then add its labels, reviewers and assignees
  */
-export async function createPullRequest(
-  title: string,
-  body: string,
-  branch: string,
-  baseBranch: string = config.get('defaultBranch') || 'development',
-  isDraft: boolean = true
-): Promise<string> {
+export async function openPullRequest(params: CreateChangeRequestParams): Promise<ChangeRequest> {
   const octokit = getGithubClient();
-  const repoPath = config.get('githubRepo');
-  
-  if (!repoPath) {
-    throw new Error('GitHub repository not configured. Run `linear-pr setup` first.');
-  }
-  
-  const [owner, repo] = repoPath.split('/');
+  const { owner, repo } = getRepoParts();
+  const { title, body, sourceBranch, targetBranch, draft } = params;
   
+  let pullRequest: PullRequestData & { user: { login: string } | null };
   try {
-    // Extract task ID from PR title
-    const taskIdMatch = title.match(/\[([\w-]+)\]/);
-    const taskId = taskIdMatch ? taskIdMatch[1] : 'TASK';
-    const taskDescription = title.replace(/^\w+\([^)]+\): \[[^\]]+\]\s*/, '');
-    
-    // Create a sample commit if needed
-    await createSampleCommitIfNeeded(taskId, taskDescription);
-    
-    // Push the branch to remote before creating PR
-    try {
-      console.log(chalk.blue(`Pushing branch "${branch}" to remote...`));
-      runGitCommand(`git push -u origin "${branch}"`);
-    } catch (error) {
-      console.warn(chalk.yellow(`Failed to push branch. Attempting to create PR anyway.`));
-    }
-    
-    // Make a direct call to get repository info to determine the default branch
+    // Make a direct call to get repository info to determine the head owner
     try {
       const { data: repoInfo } = await octokit.rest.repos.get({
         owner,
@@ -267,69 +431,248 @@ export async function createPullRequest(
       // For forks, the head needs to refer to the fork owner, not the upstream owner
       const headUser = repoInfo.fork ? repoInfo.owner.login : owner;
       
-      // Format the head parameter properly - for forks we need to use the fork owner's username
-      const headReference = `${headUser}:${branch}`;
-      
-      // Make one last attempt with raw approach
-      if (branch.includes('/')) {
-        // Direct API call to create the PR
-        const { data: pullRequest } = await octokit.request('POST /repos/{owner}/{repo}/pulls', {
-          owner,
-          repo,
-          head: headReference,
-          base: baseBranch,
-          title,
-          body,
-          draft: isDraft
-        });
-        
-        return pullRequest.html_url;
-      }
-      
-      // Standard PR creation
-      const { data: pullRequest } = await octokit.rest.pulls.create({
+      ({ data: pullRequest } = await octokit.rest.pulls.create({
         owner,
         repo,
         title,
         body,
-        head: headReference,
-        base: baseBranch,
-        draft: isDraft
-      });
-      
-      return pullRequest.html_url;
-    } catch (repoError) {
+        head: `${headUser}:${sourceBranch}`,
+        base: targetBranch,
+        draft
+      }));
+    } catch {
       // Fallback to simple approach
-      const { data: pullRequest } = await octokit.rest.pulls.create({
+      ({ data: pullRequest } = await octokit.rest.pulls.create({
         owner,
         repo,
         title,
         body,
-        head: branch, // Use just the branch name in last resort
-        base: baseBranch,
-        draft: isDraft
-      });
-      
-      return pullRequest.html_url;
+        head: sourceBranch, // Use just the branch name in last resort
+        base: targetBranch,
+        draft
+      }));
     }
   } catch (error) {
-    if (error instanceof Error) {
-      // If the error message contains JSON, try to extract more details
-      const jsonMatch = error.message.match(/{.*}/);
-      if (jsonMatch) {
-        try {
-          const errorDetails = JSON.parse(jsonMatch[0]);
-          throw new Error(`Failed to create pull request: ${JSON.stringify(errorDetails, null, 2)}`);
-        } catch (parseError) {
-          // If JSON parsing fails, just use the original error
-          throw new Error(`Failed to create pull request: ${error.message}`);
-        }
+    throw toGithubError(error, 'Failed to create pull request');
+  }
+  
+  await addPullRequestMetadata(pullRequest.number, pullRequest.user?.login, params);
+  return toChangeRequest(pullRequest);
+}
+
+/**
+ * Get a pull request by number
+ */
+export async function getPullRequest(number: number): Promise<ChangeRequest> {
+  const octokit = getGithubClient();
+  const { data: pullRequest } = await octokit.rest.pulls.get({ ...getRepoParts(), pull_number: number });
+  return toChangeRequest(pullRequest);
+}
+
+/**
+ * Find the most recently updated pull request opened from a branch, in any state
+ */
+export async function findPullRequestForBranch(branch: string): Promise<ChangeRequest | null> {
+  const octokit = getGithubClient();
+  const { owner, repo } = getRepoParts();
+  const { data: pullRequests } = await octokit.rest.pulls.list({
+    owner,
+    repo,
+    head: `${owner}:${branch}`,
+    state: 'all',
+    sort: 'updated',
+    direction: 'desc',
+    per_page: 1
+  });
+  
+  return pullRequests.length > 0 ? toChangeRequest(pullRequests[0]) : null;
+}
+
+/**
+ * Find pull requests whose head branch or title contains each task ID, keyed by task ID.
+ * Recent pull requests are matched on branch and title; older ones are looked up by the task's
+ * Linear branch name, then found by searching titles.
+ */
+export async function findPullRequestsForTasks(taskIds: string[], branchNames: Map<string, string> = new Map()): Promise<Map<string, ChangeRequest[]>> {
+  const octokit = getGithubClient();
+  const { owner, repo } = getRepoParts();
+  const found = new Map<string, ChangeRequest[]>(taskIds.map(taskId => [taskId, []]));
+  
+  const addMatches = (pullRequest: PullRequestData) => {
+    for (const [taskId, matches] of found) {
+      const mentioned = containsTaskId(pullRequest.head.ref, taskId) || containsTaskId(pullRequest.title, taskId);
+      if (mentioned && !matches.some(match => match.number === pullRequest.number)) {
+        matches.push(toChangeRequest(pullRequest));
       }
-      
-      // Otherwise, just use the original error message
-      throw new Error(`Failed to create pull request: ${error.message}`);
     }
-    
-    throw new Error(`Failed to create pull request: ${String(error)}`);
+  };
+  
+  const { data: recentPullRequests } = await octokit.rest.pulls.list({
+    owner,
+    repo,
+    state: 'all',
+    sort: 'updated',
+    direction: 'desc',
+    per_page: 100
+  });
+  recentPullRequests.forEach(addMatches);
+  
+  // Pull requests from the branch Linear suggested belong to the task, whatever their title
+  await Promise.all(taskIds.filter(taskId => found.get(taskId)?.length === 0 && branchNames.has(taskId)).map(async taskId => {
+    const { data: pullRequests } = await octokit.rest.pulls.list({ owner, repo, head: `${owner}:${branchNames.get(taskId)}`, state: 'all', per_page: 10 });
+    found.set(taskId, pullRequests.map(toChangeRequest));
+  }));
+  
+  const missing = taskIds.filter(taskId => found.get(taskId)?.length === 0);
+  for (let i = 0; i < missing.length; i += SEARCH_BATCH_SIZE) {
+    const terms = missing.slice(i, i + SEARCH_BATCH_SIZE).map(taskId => `"${taskId}"`).join(' OR ');
+    // The GraphQL search returns the branch and merge details that REST search results lack
+    const { search } = await octokit.graphql<{ search: { nodes: Array<GraphqlPullRequest | Record<string, never>> } }>(
+      `query($q: String!) { search(query: $q, type: ISSUE, first: 100) { nodes { ... on PullRequest { ${GRAPHQL_PULL_REQUEST_FIELDS} } } } }`,
+      { q: `repo:${owner}/${repo} is:pr in:title ${terms}` }
+    );
+    search.nodes
+      .filter((node): node is GraphqlPullRequest => 'number' in node)
+      .forEach(node => addMatches(fromGraphqlPullRequest(node)));
   }
-} 
\ No newline at end of file
+  
+  return found;
+}
+
+/**
+ * Get the number of a pull request URL in the resolved repository, or null for any other URL
+ */
+export function parsePullRequestUrl(url: string): number | null {
+  const match = url.match(getPullRequestUrlPattern());
+  if (!match) {
+    return null;
+  }
+  
+  const [, owner, repo, number] = match;
+  return `${owner}/${repo}`.toLowerCase() === resolveGithubRepo().toLowerCase() ? parseInt(number, 10) : null;
+}
+
+/**
+ * Get each reviewer's latest review state. A comment doesn't override an earlier approval or change request.
+ */
+async function getLatestReviews(number: number): Promise<Map<string, string>> {
+  const octokit = getGithubClient();
+  const { data: reviews } = await octokit.rest.pulls.listReviews({ ...getRepoParts(), pull_number: number, per_page: 100 });
+  
+  // Reviews come oldest first, so later reviews replace earlier ones from the same reviewer
+  const latestByReviewer = new Map<string, string>();
+  for (const review of reviews) {
+    if (!review.user) {
+      continue;
+    }
+    if (review.state !== 'COMMENTED' || !latestByReviewer.has(review.user.login)) {
+      latestByReviewer.set(review.user.login, review.state);
+    }
+  }
+  return latestByReviewer;
+}
+
+/**
+ * Work out a pull request's review status from each reviewer's latest decisive review
+ */
+export async function getPullRequestReviewStatus(number: number): Promise<ReviewStatus> {
+  const states = [...(await getLatestReviews(number)).values()];
+  if (states.includes('CHANGES_REQUESTED')) {
+    return 'changes_requested';
+  }
+  return states.includes('APPROVED') ? 'approved' : 'review_required';
+}
+
+/**
+ * Map a check run's status and conclusion to a check result status
+ */
+function toCheckStatus(status: string, conclusion: string | null): CheckResult['status'] {
+  if (status !== 'completed') {
+    return 'pending';
+  }
+  if (conclusion === 'success') {
+    return 'success';
+  }
+  return conclusion === 'neutral' || conclusion === 'skipped' || conclusion === 'stale' ? 'neutral' : 'failure';
+}
+
+/**
+ * Get a pull request with its mergeability, the checks on its head commit and its reviews
+ */
+export async function getPullRequestDetails(number: number): Promise<ChangeRequestDetails> {
+  const octokit = getGithubClient();
+  const { owner, repo } = getRepoParts();
+  const { data: pullRequest } = await octokit.rest.pulls.get({ owner, repo, pull_number: number });
+  const ref = pullRequest.head.sha;
+  
+  // CI reports either as check runs (GitHub Actions, apps) or as commit statuses (older integrations)
+  const [{ data: checkRuns }, { data: combinedStatus }, latestReviews] = await Promise.all([
+    octokit.rest.checks.listForRef({ owner, repo, ref, per_page: 100 }),
+    octokit.rest.repos.getCombinedStatusForRef({ owner, repo, ref, per_page: 100 }),
+    getLatestReviews(number)
+  ]);
+  
+  const checks: CheckResult[] = [
+    ...checkRuns.check_runs.map(run => ({
+      name: run.name,
+      status: toCheckStatus(run.status, run.conclusion),
+      url: run.html_url || undefined
+    })),
+    ...combinedStatus.statuses.map(status => ({
+      name: status.context,
+      status: status.state === 'success' ? 'success' as const : status.state === 'pending' ? 'pending' as const : 'failure' as const,
+      url: status.target_url || undefined
+    }))
+  ];
+  
+  const REVIEW_STATES: Record<string, ReviewDecision['state']> = {
+    APPROVED: 'approved',
+    CHANGES_REQUESTED: 'changes_requested',
+    COMMENTED: 'commented'
+  };
+  const reviews: ReviewDecision[] = [...latestReviews]
+    .filter(([, state]) => REVIEW_STATES[state])
+    .map(([reviewer, state]) => ({ reviewer, state: REVIEW_STATES[state] }));
+  
+  // Requested reviewers who haven't reviewed yet
+  for (const reviewer of pullRequest.requested_reviewers || []) {
+    if (!latestReviews.has(reviewer.login)) {
+      reviews.push({ reviewer: reviewer.login, state: 'pending' });
+    }
+  }
+  for (const team of pullRequest.requested_teams || []) {
+    reviews.push({ reviewer: `@${owner}/${team.slug}`, state: 'pending' });
+  }
+  
+  return { ...toChangeRequest(pullRequest), mergeable: pullRequest.mergeable, checks, reviews };
+}
+
+/**
+ * Update a pull request's title, body, base branch or draft status
+ */
+export async function updatePullRequest(number: number, changes: UpdateChangeRequestParams): Promise<ChangeRequest> {
+  const octokit = getGithubClient();
+  const { owner, repo } = getRepoParts();
+  
+  let { data: pullRequest } = await octokit.rest.pulls.get({ owner, repo, pull_number: number });
+  
+  if (changes.title !== undefined || changes.body !== undefined || changes.targetBranch !== undefined) {
+    ({ data: pullRequest } = await octokit.rest.pulls.update({
+      owner,
+      repo,
+      pull_number: number,
+      title: changes.title,
+      body: changes.body,
+      base: changes.targetBranch
+    }));
+  }
+  
+  // The REST API can't change draft status; only GraphQL has mutations for it
+  if (changes.draft !== undefined && changes.draft !== pullRequest.draft) {
+    const mutation = changes.draft ? 'convertPullRequestToDraft' : 'markPullRequestReadyForReview';
+    await octokit.graphql(`mutation($id: ID!) { ${mutation}(input: { pullRequestId: $id }) { clientMutationId } }`, { id: pullRequest.node_id });
+    pullRequest = { ...pullRequest, draft: changes.draft };
+  }
+  
+  return toChangeRequest(pullRequest);
+}
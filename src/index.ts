@@ -1,22 +1,151 @@
-export { config } from './config.js';
-export type { Config } from './types.js';
+export { config, resolveConfig, getActiveProfile, getProfiles, setProfileOverride } from './config.js';
+export type { ActiveProfile } from './config.js';
+export type { Config, ProjectConfig, Profile, ProfileMatch, CodeHostName, LifecycleEvent, PriorityName } from './types.js';
+
+// Export profile management
+export { addProfile, useProfile, removeProfile, clearDefaultProfile } from './profiles.js';
+
+// Export per-repository config file support
+export { loadProjectConfig, findProjectConfigFile, ProjectConfigError } from './project-config.js';
 
 // Export Linear functionality
-export { getLinearClient, setupLinear, getTask, attachPRToTask } from './linear.js';
+export { getLinearClient, setupLinear, getTask, attachPRToTask, getAssignedTasks } from './linear.js';
+export type { AssignedTask } from './linear.js';
+
+// Export task listing
+export { listTasks, buildTaskFilter, sortTasks, TASK_SORT_KEYS, PRIORITIES } from './linear.js';
+export type { TaskListFilter, ListTasksOptions, TaskListItem, TaskSortKey } from './linear.js';
+
+// Export workflow state transitions
+export { transitionTask, validateTransitions, getTransitions, findWorkflowState, DEFAULT_TRANSITIONS } from './transitions.js';
+export type { TransitionResult } from './transitions.js';
+
+// Export branch status
+export { getBranchStatus } from './status.js';
+export type { BranchStatus } from './status.js';
+export type { TaskStatus } from './linear.js';
+
+// Export syncing PR state back to Linear
+export { syncTasks } from './sync.js';
+export type { SyncOptions, SyncAction } from './sync.js';
+
+// Export PR discovery for Linear tasks
+export { discoverTaskChangeRequests, pickPrimaryChangeRequest } from './discovery.js';
+export type { TaskLookup } from './discovery.js';
 
 // Export GitHub functionality
-export { getGithubClient, setupGithub, createBranch, createPullRequest as createGithubPR } from './github.js';
+export { getGithubClient, setupGithub, resolveGithubRepo, getGithubHost, getGithubApiUrl } from './github.js';
+
+// Export code host providers (GitHub, GitLab)
+export { getCodeHostProvider, detectCodeHost, createGithubProvider, createGitlabProvider } from './providers/index.js';
+export type {
+  CodeHostProvider,
+  ChangeRequest,
+  ChangeRequestState,
+  ReviewStatus,
+  ChangeRequestDetails,
+  CheckResult,
+  ReviewDecision,
+  CreateChangeRequestParams,
+  UpdateChangeRequestParams,
+  GitlabProviderOptions
+} from './providers/index.js';
+
+// Export credential lookup
+export {
+  getLinearCredential,
+  getGithubCredential,
+  getGitlabCredential,
+  listLinearCredentials,
+  listGithubCredentials,
+  listGitlabCredentials
+} from './credentials.js';
+export type { Credential, CredentialSource } from './credentials.js';
+
+// Export git remote parsing
+export { parseRemoteUrl, detectRemoteRepository } from './remote.js';
+export type { RemoteInfo } from './remote.js';
 
 // Export PR creation utility
-export { createPullRequest } from './pr.js';
+export { createPullRequest, createGithubPullRequest as createGithubPR, planPullRequest, DEFAULT_PR_TYPES } from './pr.js';
+export type { CreatePROptions, CreatedPullRequest, PullRequestPlan, PlannedStep } from './pr.js';
+
+// Export PR labels, reviewers and assignees
+export { resolvePullRequestMetadata } from './metadata.js';
+export type { PullRequestMetadata, PullRequestMetadataOptions, MetadataSource } from './metadata.js';
+export { parseCodeowners, findCodeowners, loadCodeowners, CODEOWNERS_FILES } from './codeowners.js';
+export type { CodeownersRule } from './codeowners.js';
+
+// Export stacked PRs
+export {
+  restack,
+  findStackCandidates,
+  getStackedBranches,
+  setStackParent,
+  clearStackParent,
+  updateStackLinks,
+  renderStackSection,
+  setStackSection
+} from './stack.js';
+export type { StackCandidate, RestackAction } from './stack.js';
+
+// Export prompting and non-interactive mode
+export { prompt, setNonInteractive, isInteractive } from './prompt.js';
+export type { PromptOptions } from './prompt.js';
+
+// Export PR title formatting and parsing
+export { formatPRTitle, parsePRTitle, parseTitleTaskIds, DEFAULT_TITLE_FORMAT } from './title.js';
+export type { PRTitleParts } from './title.js';
+
+// Export PR body templates
+export { renderTemplate, resolvePRTemplate, formatTaskList, DEFAULT_PR_TEMPLATE } from './template.js';
+export type { TemplateContext, TaskListEntry, PRTemplate } from './template.js';
 
 // Export utility functions
 export {
   validateTaskId,
   createBranchName,
-  runGitCommand,
-  isGitRepository,
-  getCurrentBranch,
+  validateBranchName,
+  slugify,
+  transliterate,
   getTaskIdFromBranch,
   createPRTitle
-} from './utils.js';
\ No newline at end of file
+} from './utils.js';
+
+// Export the git layer
+export {
+  runGit,
+  runGitAsync,
+  gitOutput,
+  formatGitCommand,
+  isGitRepository,
+  getCurrentBranch,
+  createBranch,
+  planCreateBranch,
+  pushBranch,
+  listBranches,
+  getChangedFiles,
+  GitError,
+  NotARepositoryError,
+  DirtyWorkingTreeError,
+  NonFastForwardError,
+  GitAuthError,
+  MissingRefError
+} from './git.js';
+export type { GitResult, GitOptions, BranchSource } from './git.js';
+
+// Export the error types and exit codes
+export {
+  EXIT_CODES,
+  LinearPrError,
+  InputRequiredError,
+  AuthError,
+  TaskNotFoundError,
+  NotAssignedError,
+  RepositoryNotConfiguredError,
+  PullRequestExistsError,
+  RateLimitError,
+  wrapError,
+  describeError
+} from './errors.js';
+export type { LinearPrErrorOptions, ErrorReport } from './errors.js';
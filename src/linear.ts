@@ -1,42 +1,151 @@
-import { LinearClient } from '@linear/sdk';
-import inquirer from 'inquirer';
+import { LinearClient, LinearErrorType, parseLinearError } from '@linear/sdk';
+import type { LinearErrorRaw } from '@linear/sdk';
 import chalk from 'chalk';
-import { config } from './config.js';
-import open from 'open';
-import http from 'http';
-import url from 'url';
+import { resolveConfig, setSetting } from './config.js';
+import { getLinearCredential } from './credentials.js';
+import { getSecret, setSecret } from './secrets.js';
+import { prompt } from './prompt.js';
+import { LinearPrError, AuthError, TaskNotFoundError, RateLimitError } from './errors.js';
+import { discoverTaskChangeRequests } from './discovery.js';
+import type { TaskLookup } from './discovery.js';
+import type { ChangeRequest, ChangeRequestState, CodeHostProvider } from './providers/types.js';
+import { isLinearTokenExpiring, refreshLinearAccessToken, performOAuth2Flow, saveOAuthTokens } from './oauth.js';
+import { log } from './logger.js';
 
-// Define the port for OAuth callback
-const OAUTH_PORT = 45678;
-const REDIRECT_URI = `http://localhost:${OAUTH_PORT}/callback`;
+// Linear's workflow state types, which every team has regardless of how it names its states,
+// in order from least to most done
+export const WORKFLOW_STATE_TYPES = ['triage', 'backlog', 'unstarted', 'started', 'completed', 'canceled'];
+
+// Linear's priority values by name
+export const PRIORITIES: Record<string, number> = {
+  none: 0,
+  urgent: 1,
+  high: 2,
+  medium: 3,
+  low: 4
+};
 
 /**
- * Get or create a Linear client using stored tokens
+ * Get or create a Linear client using the first available credential
+ * (environment, then the encrypted secret store)
  */
 export async function getLinearClient(): Promise<LinearClient> {
-  const accessToken = config.get('linearAccessToken');
-  const isApiKey = config.get('isApiKey') === true;
+  const credential = getLinearCredential();
   
-  if (!accessToken) {
-    throw new Error('Linear is not set up. Run `linear-pr setup` first.');
+  if (!credential) {
+    throw new AuthError('Linear is not set up', { hint: 'Run `linear-pr setup`, or set LINEAR_API_KEY.' });
   }
   
   // Initialize the client differently based on authentication type
-  if (isApiKey) {
-    return new LinearClient({ apiKey: accessToken });
-  } else {
-    return new LinearClient({ accessToken });
+  if (credential.isApiKey) {
+    return new LinearClient({ apiKey: credential.token });
+  }
+  
+  // Refresh OAuth tokens ahead of their expiry
+  let accessToken = credential.token;
+  if (isLinearTokenExpiring()) {
+    accessToken = await renewLinearAccessToken();
+  }
+  
+  const client = new LinearClient({ accessToken });
+  retryOnAuthenticationError(client);
+  return client;
+}
+
+// Renewal in progress, shared so parallel requests rejected with 401 start only one login
+let pendingRenewal: Promise<string> | null = null;
+
+/**
+ * Get a fresh OAuth access token, falling back to a new login if the refresh fails
+ */
+async function renewLinearAccessToken(): Promise<string> {
+  if (pendingRenewal) {
+    return pendingRenewal;
+  }
+
+  pendingRenewal = (async () => {
+    try {
+      return await refreshLinearAccessToken();
+    } catch (error) {
+      console.warn(chalk.yellow(`Could not refresh your Linear session: ${error instanceof Error ? error.message : String(error)}`));
+      log(chalk.yellow('Please log in to Linear again.'));
+      await setupWithOAuth();
+
+      const accessToken = getSecret('linearAccessToken');
+      if (!accessToken) {
+        throw new AuthError('Linear login failed');
+      }
+      return accessToken;
+    }
+  })();
+
+  try {
+    return await pendingRenewal;
+  } finally {
+    pendingRenewal = null;
+  }
+}
+
+/**
+ * Turn an error from the Linear SDK into a typed error: rejected credentials, rate limiting or,
+ * when looking up `taskId`, a missing issue. Anything else is wrapped with `message`.
+ */
+export function toLinearError(error: unknown, message: string, taskId?: string): LinearPrError {
+  if (error instanceof LinearPrError) {
+    return error;
+  }
+  
+  const linearError = parseLinearError(error as LinearErrorRaw);
+  if (linearError.type === LinearErrorType.AuthenticationError) {
+    return new AuthError('Linear rejected the credentials', { cause: error });
+  }
+  if (linearError.type === LinearErrorType.Ratelimited) {
+    return new RateLimitError('Linear', null, { cause: error });
   }
+  if (taskId && /entity not found/i.test(linearError.message)) {
+    return new TaskNotFoundError(taskId, { cause: error });
+  }
+  return new LinearPrError(message, { cause: error });
+}
+
+/**
+ * Retry a request once with a refreshed token when Linear rejects the current one
+ */
+function retryOnAuthenticationError(client: LinearClient): void {
+  const graphQLClient = client.client;
+  const request = graphQLClient.request.bind(graphQLClient);
+  
+  graphQLClient.request = async (document, variables, requestHeaders) => {
+    try {
+      return await request(document, variables, requestHeaders);
+    } catch (error) {
+      if (parseLinearError(error as LinearErrorRaw).type !== LinearErrorType.AuthenticationError) {
+        throw error;
+      }
+      
+      const accessToken = await renewLinearAccessToken();
+      graphQLClient.setHeader('Authorization', `Bearer ${accessToken}`);
+      return request(document, variables, requestHeaders);
+    }
+  };
+}
+
+/**
+ * Options for the interactive Linear setup
+ */
+export interface SetupLinearOptions {
+  // Print the authorization URL and ask for the code instead of opening a browser
+  noBrowser?: boolean;
 }
 
 /**
  * Set up Linear authentication - supports both API key and OAuth
  */
-export async function setupLinear(): Promise<void> {
-  console.log(chalk.blue('Setting up Linear integration'));
+export async function setupLinear(options: SetupLinearOptions = {}): Promise<void> {
+  log(chalk.blue('Setting up Linear integration'));
   
   // Prompt user for authentication type
-  const { authType } = await inquirer.prompt([
+  const { authType } = await prompt([
     {
       type: 'list',
       name: 'authType',
@@ -46,12 +155,12 @@ export async function setupLinear(): Promise<void> {
         { name: 'OAuth (requires OAuth app setup)', value: 'oauth' }
       ]
     }
-  ]);
+  ], { hint: 'Set LINEAR_API_KEY, or pass --linear-api-key to `linear-pr setup`.' });
   
   if (authType === 'apiKey') {
     await setupWithApiKey();
   } else {
-    await setupWithOAuth();
+    await setupWithOAuth(options);
   }
 }
 
@@ -59,182 +168,65 @@ export async function setupLinear(): Promise<void> {
  * Set up Linear using personal API key
  */
 async function setupWithApiKey(): Promise<void> {
-  console.log(chalk.yellow('To get your Personal API key:'));
-  console.log('1. Go to Linear → your avatar/profile → Personal Settings');
-  console.log('2. Select "API" from the menu');
-  console.log('3. Under "Personal API keys", create a new key');
-  console.log('4. Copy the generated key (you\'ll only see it once)\n');
+  log(chalk.yellow('To get your Personal API key:'));
+  log('1. Go to Linear → your avatar/profile → Personal Settings');
+  log('2. Select "API" from the menu');
+  log('3. Under "Personal API keys", create a new key');
+  log('4. Copy the generated key (you\'ll only see it once)\n');
   
-  const { token } = await inquirer.prompt([
+  const { token } = await prompt([
     {
       type: 'password',
       name: 'token',
       message: 'Enter your Linear Personal API key:',
       validate: (input) => !!input || 'API key is required'
     }
-  ]);
+  ], { hint: 'Set LINEAR_API_KEY, or pass --linear-api-key to `linear-pr setup`.' });
   
   // Verify the token works
   try {
     const client = new LinearClient({ apiKey: token });
     const viewer = await client.viewer;
-    console.log(chalk.green(`✅ Connected to Linear as ${viewer.name}`));
+    log(chalk.green(`✅ Connected to Linear as ${viewer.name}`));
     
     // Save the token and mark it as an API key
-    config.set('linearAccessToken', token);
-    config.set('isApiKey', true);
+    setSecret('linearAccessToken', token);
+    setSetting('isApiKey', true);
   } catch (error) {
-    console.error(chalk.red('Error connecting to Linear:'), 
-      error instanceof Error ? error.message : 'Invalid token');
-    throw new Error('Failed to connect to Linear');
+    throw toLinearError(error, 'Failed to connect to Linear');
   }
 }
 
 /**
  * Set up Linear using OAuth2
  */
-async function setupWithOAuth(): Promise<void> {
-  console.log(chalk.blue('Setting up Linear integration using OAuth'));
+async function setupWithOAuth(options: SetupLinearOptions = {}): Promise<void> {
+  log(chalk.blue('Setting up Linear integration using OAuth'));
   
   // Check if we have OAuth client credentials
-  const clientId = config.get('linearOAuthClientId');
-  const clientSecret = config.get('linearOAuthClientSecret');
+  const clientId = resolveConfig().linearOAuthClientId;
+  const clientSecret = getSecret('linearOAuthClientSecret');
   
   if (!clientId || !clientSecret) {
-    console.log(chalk.yellow('OAuth credentials not found.'));
-    console.log(chalk.yellow(`Please run \`linear-pr config-oauth\` first to configure your OAuth credentials.`));
-    throw new Error('OAuth credentials not configured');
+    throw new AuthError('Linear OAuth credentials are not configured', { hint: 'Run `linear-pr config-oauth` first.' });
   }
   
-  console.log(chalk.yellow('You will be redirected to Linear to authorize this application.'));
-  
   try {
-    const accessToken = await performOAuth2Flow(clientId, clientSecret);
+    const tokenData = await performOAuth2Flow(clientId, clientSecret, { manual: options.noBrowser });
     
     // Verify the token works
-    const client = new LinearClient({ accessToken });
+    const client = new LinearClient({ accessToken: tokenData.access_token });
     const viewer = await client.viewer;
     
-    console.log(chalk.green(`✅ Connected to Linear as ${viewer.name}`));
+    log(chalk.green(`✅ Connected to Linear as ${viewer.name}`));
     
-    // Save the token and mark it as NOT an API key
-    config.set('linearAccessToken', accessToken);
-    config.set('isApiKey', false);
+    // Save the tokens (with refresh token and expiry) and mark them as NOT an API key
+    saveOAuthTokens(tokenData);
   } catch (error) {
-    console.error(chalk.red('Error connecting to Linear:'), 
-      error instanceof Error ? error.message : 'Authentication failed');
-    throw new Error('Failed to connect to Linear');
+    throw toLinearError(error, 'Failed to connect to Linear');
   }
 }
 
-/**
- * Perform the OAuth2 flow to get an access token
- */
-async function performOAuth2Flow(clientId: string, clientSecret: string): Promise<string> {
-  const SCOPES = ['read', 'write'];
-  
-  return new Promise((resolve, reject) => {
-    // Create a secure random state parameter to prevent CSRF attacks
-    const state = Math.random().toString(36).substring(2, 15);
-    
-    // Create the authorization URL
-    const authUrl = new URL('https://linear.app/oauth/authorize');
-    authUrl.searchParams.append('client_id', clientId);
-    authUrl.searchParams.append('redirect_uri', REDIRECT_URI);
-    authUrl.searchParams.append('response_type', 'code');
-    authUrl.searchParams.append('state', state);
-    authUrl.searchParams.append('scope', SCOPES.join(','));
-    
-    console.log(chalk.cyan('Opening browser to authorize Linear...'));
-    
-    // Open the authorization URL in the user's browser
-    open(authUrl.toString());
-    
-    // Create a server to handle the callback
-    const server = http.createServer(async (req, res) => {
-      try {
-        // Parse the request URL
-        const parsedUrl = url.parse(req.url || '', true);
-        const { pathname, query } = parsedUrl;
-        
-        // Check if this is the callback route
-        if (pathname === '/callback') {
-          // Close the response with a success message
-          res.writeHead(200, { 'Content-Type': 'text/html' });
-          res.end('<h1>Authentication successful!</h1><p>You can close this window and return to the CLI.</p>');
-          
-          // Validate the state parameter to prevent CSRF attacks
-          if (query.state !== state) {
-            server.close();
-            reject(new Error('Invalid state parameter'));
-            return;
-          }
-          
-          // Check for error in the callback
-          if (query.error) {
-            server.close();
-            reject(new Error(`Authorization error: ${query.error}`));
-            return;
-          }
-          
-          // Get the authorization code
-          const code = query.code;
-          if (!code) {
-            server.close();
-            reject(new Error('No authorization code returned'));
-            return;
-          }
-          
-          try {
-            // Exchange the code for an access token
-            const tokenResponse = await fetch('https://api.linear.app/oauth/token', {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({
-                client_id: clientId,
-                client_secret: clientSecret,
-                redirect_uri: REDIRECT_URI,
-                code,
-                grant_type: 'authorization_code'
-              })
-            });
-            
-            if (!tokenResponse.ok) {
-              const errorData = await tokenResponse.json();
-              throw new Error(`Token exchange failed: ${JSON.stringify(errorData)}`);
-            }
-            
-            const tokenData = await tokenResponse.json();
-            
-            // Close the server and resolve with the access token
-            server.close();
-            resolve(tokenData.access_token);
-          } catch (error) {
-            server.close();
-            reject(error);
-          }
-        }
-      } catch (error) {
-        res.writeHead(500, { 'Content-Type': 'text/html' });
-        res.end('<h1>Authentication failed</h1><p>Please try again.</p>');
-        server.close();
-        reject(error);
-      }
-    });
-    
-    // Start the server on the specified port
-    server.listen(OAUTH_PORT, () => {
-      console.log(chalk.yellow(`Waiting for authentication...`));
-    });
-    
-    // Add a timeout to prevent the server from running indefinitely
-    setTimeout(() => {
-      server.close();
-      reject(new Error('Authentication timed out after 5 minutes'));
-    }, 5 * 60 * 1000);
-  });
-}
-
 /**
  * Get the current authenticated Linear user
  */
@@ -273,7 +265,7 @@ export async function getTask(taskId: string, checkAssignment = false) {
     });
     
     if (!nodes || nodes.length === 0) {
-      throw new Error(`Task ${taskId} not found`);
+      throw new TaskNotFoundError(taskId);
     }
     
     const issue = nodes[0];
@@ -287,14 +279,25 @@ export async function getTask(taskId: string, checkAssignment = false) {
       }
     }
     
+    // Get the label names
+    const labels = await issue.labels();
+    const labelNames = labels.nodes.map(label => label.name);
+    
+    // The parent and the issues blocking this one are where a stacked PR can be based
+    const parent = issue.parent ? await issue.parent : undefined;
+    const { nodes: inverseRelations } = await issue.inverseRelations();
+    const blockers = await Promise.all(
+      inverseRelations.filter(relation => relation.type === 'blocks').map(relation => relation.issue)
+    );
+    
+    // The assignee is mapped to a code host user for the PR
+    const assignee = issue.assignee ? await issue.assignee : undefined;
+    
     // Check if the current user is the assignee of this issue
     let isAssigned = false;
-    if (checkAssignment) {
+    if (checkAssignment && assignee) {
       const currentUser = await getCurrentUser();
-      if (issue.assignee) {
-        const assignee = await issue.assignee;
-        isAssigned = assignee?.id === currentUser.id;
-      }
+      isAssigned = assignee.id === currentUser.id;
     }
     
     return {
@@ -303,11 +306,57 @@ export async function getTask(taskId: string, checkAssignment = false) {
       title: issue.title,
       description: issue.description || '',
       url: issue.url,
+      branchName: issue.branchName,
       projectName,
+      teamKey: issue.identifier.split('-')[0],
+      priority: issue.priority,
+      labels: labelNames,
+      parentId: parent?.identifier ?? null,
+      blockedBy: blockers.flatMap(blocker => blocker ? [blocker.identifier] : []),
+      assignee: assignee ? { name: assignee.name, email: assignee.email } : null,
       isAssigned
     };
   } catch (error) {
-    throw new Error(`Failed to fetch Linear task: ${error instanceof Error ? error.message : String(error)}`);
+    throw toLinearError(error, `Failed to fetch Linear task ${taskId}`, taskId);
+  }
+}
+
+/**
+ * A task's details as shown by `linear-pr status`
+ */
+export interface TaskStatus {
+  taskId: string;
+  title: string;
+  url: string;
+  state: string;
+  assignee: string | null;
+  project: string | null;
+  cycle: string | null;
+  priority: string;
+}
+
+/**
+ * Get the details of a task shown by `linear-pr status`
+ */
+export async function getTaskStatus(taskId: string): Promise<TaskStatus> {
+  const client = await getLinearClient();
+  
+  try {
+    const issue = await client.issue(taskId);
+    const [state, assignee, project, cycle] = await Promise.all([issue.state, issue.assignee, issue.project, issue.cycle]);
+    
+    return {
+      taskId: issue.identifier,
+      title: issue.title,
+      url: issue.url,
+      state: state?.name || 'Unknown',
+      assignee: assignee?.name || null,
+      project: project?.name || null,
+      cycle: cycle ? cycle.name || `Cycle ${cycle.number}` : null,
+      priority: issue.priorityLabel
+    };
+  } catch (error) {
+    throw toLinearError(error, `Failed to fetch Linear task ${taskId}`, taskId);
   }
 }
 
@@ -318,72 +367,74 @@ export async function isTaskAssignedToCurrentUser(taskId: string): Promise<boole
   try {
     const task = await getTask(taskId, true);
     return task.isAssigned;
-  } catch (error) {
+  } catch {
     return false;
   }
 }
 
+// How each change request state reads in the attachment subtitle
+const CHANGE_REQUEST_STATE_LABELS: Record<ChangeRequestState, string> = {
+  open: 'Open',
+  draft: 'Draft',
+  merged: 'Merged',
+  closed: 'Closed'
+};
+
 /**
- * Update a Linear task with a PR link
+ * Link a pull/merge request to a Linear task as an attachment, showing its number and state.
+ * Linear updates an existing attachment with the same URL, so re-running is safe.
+ * Returns whether the link was made.
  */
-export async function attachPRToTask(taskId: string, prUrl: string): Promise<void> {
-  const client = await getLinearClient();
-  
+export async function attachPRToTask(
+  taskId: string,
+  changeRequest: ChangeRequest,
+  codeHost: Pick<CodeHostProvider, 'name' | 'displayName' | 'changeRequestName' | 'host'>
+): Promise<boolean> {
   try {
-    // Get the task
-    const task = await getTask(taskId);
+    const client = await getLinearClient();
+    const issue = await client.issue(taskId);
     
-    // Make a direct HTTP request to the Linear API to add a comment
-    const accessToken = config.get('linearAccessToken');
-    const isApiKey = config.get('isApiKey') === true;
+    // Only a new link gets a comment, so re-runs don't repeat it
+    const existing = await client.attachmentsForURL(changeRequest.url);
+    const alreadyLinked = existing.nodes.some(attachment => attachment.issueId === issue.id);
     
-    // Create the headers object
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json'
-    };
-    
-    // Add the appropriate authentication header
-    if (isApiKey) {
-      headers['X-API-Key'] = accessToken as string;
-    } else {
-      headers['Authorization'] = `Bearer ${accessToken}`;
-    }
-    
-    const response = await fetch('https://api.linear.app/graphql', {
-      method: 'POST',
-      headers,
-      body: JSON.stringify({
-        query: `
-          mutation CreateComment($issueId: String!, $body: String!) {
-            commentCreate(input: {
-              issueId: $issueId
-              body: $body
-            }) {
-              success
-            }
-          }
-        `,
-        variables: {
-          issueId: task.id,
-          body: `Created PR: ${prUrl}`
-        }
-      })
+    const payload = await client.createAttachment({
+      issueId: issue.id,
+      url: changeRequest.url,
+      title: changeRequest.title,
+      subtitle: `#${changeRequest.number} · ${CHANGE_REQUEST_STATE_LABELS[changeRequest.state]}`,
+      iconUrl: `https://${codeHost.host}/favicon.ico`,
+      metadata: {
+        codeHost: codeHost.name,
+        number: changeRequest.number,
+        state: changeRequest.state,
+        sourceBranch: changeRequest.sourceBranch,
+        targetBranch: changeRequest.targetBranch
+      }
     });
     
-    const result = await response.json();
+    if (!payload.success) {
+      throw new Error('Linear did not accept the attachment');
+    }
     
-    if (!result?.data?.commentCreate?.success) {
-      console.warn('Comment creation may have failed, but continuing anyway.');
+    if (!alreadyLinked && resolveConfig().linearComment) {
+      await client.createComment({
+        issueId: issue.id,
+        body: `Opened ${codeHost.displayName} ${codeHost.changeRequestName} [#${changeRequest.number} ${changeRequest.title}](${changeRequest.url})`
+      });
     }
+    
+    return true;
   } catch (error) {
-    console.warn(chalk.yellow(`Could not add PR link to Linear task: ${error instanceof Error ? error.message : String(error)}`));
+    console.warn(chalk.yellow(`Could not link the ${codeHost.changeRequestName} to Linear task ${taskId}: ${error instanceof Error ? error.message : String(error)}`));
+    return false;
   }
 }
 
 /**
- * Get all tasks assigned to the current user
+ * A task assigned to the current user, with the pull/merge request found for it
  */
-export async function getAssignedTasks(limit = 50): Promise<Array<{
+export interface AssignedTask {
   id: string;
   taskId: string;
   title: string;
@@ -391,10 +442,13 @@ export async function getAssignedTasks(limit = 50): Promise<Array<{
   description: string;
   url: string;
   projectName: string | null;
-  hasExistingPR: boolean;
-  hasPRClosed: boolean;
-  prUrl?: string;
-}>> {
+  pullRequest?: ChangeRequest;
+}
+
+/**
+ * Get all tasks assigned to the current user
+ */
+export async function getAssignedTasks(limit = 50): Promise<AssignedTask[]> {
   const client = await getLinearClient();
   
   try {
@@ -404,7 +458,7 @@ export async function getAssignedTasks(limit = 50): Promise<Array<{
     const { nodes } = await client.issues({
       filter: {
         assignee: { id: { eq: currentUser.id } },
-        state: { name: { nin: ["Completed", "Canceled"] } } // Exclude completed or canceled tasks
+        state: { type: { nin: ['completed', 'canceled'] } } // Exclude completed or canceled tasks, whatever the team calls them
       },
       first: limit
     });
@@ -414,7 +468,7 @@ export async function getAssignedTasks(limit = 50): Promise<Array<{
     }
     
     // Process each issue to get additional information
-    const tasks = await Promise.all(nodes.map(async (issue) => {
+    const issues = await Promise.all(nodes.map(async (issue) => {
       // Get project name if available
       let projectName = null;
       if (issue.project) {
@@ -424,67 +478,338 @@ export async function getAssignedTasks(limit = 50): Promise<Array<{
         }
       }
       
-      // Check if there's an existing PR attached
-      let hasExistingPR = false;
-      let hasPRClosed = false;
-      let prUrl: string | undefined = undefined;
-      
       // Get state information
       const state = await issue.state;
       
-      // Check comments for PR links and status (simple heuristic)
-      try {
-        const comments = await issue.comments();
-        
-        // Look for PR links in comments
-        for (const comment of comments.nodes) {
-          if (comment.body.includes('github.com') && 
-              (comment.body.includes('/pull/') || comment.body.includes('Created PR'))) {
-            
-            hasExistingPR = true;
-            
-            // Extract the PR URL using regex
-            const prUrlMatch = comment.body.match(/https:\/\/github\.com\/[^\/]+\/[^\/]+\/pull\/\d+/);
-            if (prUrlMatch) {
-              prUrl = prUrlMatch[0];
-              
-              // Check if the PR is closed by looking for a subsequent comment
-              const prNumber = prUrl.split('/').pop();
-              const prClosedComment = comments.nodes.find(c => 
-                c.body.includes(`closed pull request #${prNumber}`) || 
-                c.body.includes(`closed PR #${prNumber}`) ||
-                c.body.includes(`PR #${prNumber} was closed`) ||
-                c.body.includes(`Pull request #${prNumber} was closed`)
-              );
-              
-              if (prClosedComment) {
-                hasPRClosed = true;
-              }
-            }
-            
-            break;
-          }
-        }
-      } catch (e) {
-        // Ignore errors from comments fetch
-      }
+      // Attachments include PRs linked by this tool and by Linear's own integrations
+      const attachments = await issue.attachments();
       
-      return {
+      const task: AssignedTask = {
         id: issue.id,
         taskId: issue.identifier,
         title: issue.title,
-        state: state ? state.name : "Unknown", 
+        state: state ? state.name : 'Unknown', 
         description: issue.description || '',
         url: issue.url,
-        projectName,
-        hasExistingPR,
-        hasPRClosed,
-        prUrl
+        projectName
       };
+      
+      return { task, attachmentUrls: attachments.nodes.map(attachment => attachment.url), branchName: issue.branchName };
     }));
     
+    const tasks = issues.map(({ task }) => task);
+    
+    // Look up each task's PR on the code host; the tasks are still useful without it
+    try {
+      const pullRequests = await discoverTaskChangeRequests(
+        issues.map(({ task, attachmentUrls, branchName }) => ({ taskId: task.taskId, attachmentUrls, branchName }))
+      );
+      for (const task of tasks) {
+        task.pullRequest = pullRequests.get(task.taskId);
+      }
+    } catch (error) {
+      console.warn(chalk.yellow(`Could not look up pull requests: ${error instanceof Error ? error.message : String(error)}`));
+    }
+    
     return tasks;
   } catch (error) {
-    throw new Error(`Failed to fetch assigned tasks: ${error instanceof Error ? error.message : String(error)}`);
+    throw toLinearError(error, 'Failed to fetch assigned tasks');
+  }
+}
+
+/**
+ * Get every open task (not completed or canceled) with an attachment whose URL starts with a prefix,
+ * e.g. all tasks linked to a repository's pull requests
+ */
+export async function getTasksLinkedTo(urlPrefix: string): Promise<TaskLookup[]> {
+  const client = await getLinearClient();
+  const tasks: TaskLookup[] = [];
+  
+  try {
+    let after: string | undefined;
+    do {
+      const page = await client.issues({
+        filter: {
+          attachments: { some: { url: { startsWith: urlPrefix } } },
+          state: { type: { nin: ['completed', 'canceled'] } }
+        },
+        first: 50,
+        after
+      });
+      
+      for (const issue of page.nodes) {
+        const attachments = await issue.attachments();
+        tasks.push({
+          taskId: issue.identifier,
+          attachmentUrls: attachments.nodes.map(attachment => attachment.url).filter(url => url.startsWith(urlPrefix)),
+          branchName: issue.branchName
+        });
+      }
+      
+      after = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : undefined;
+    } while (after);
+  } catch (error) {
+    throw toLinearError(error, 'Failed to fetch linked tasks');
+  }
+  
+  return tasks;
+}
+
+/**
+ * Comment on a task unless an existing comment already contains `key` (by default the whole body;
+ * Linear may reformat markdown, so a short key is more reliable).
+ * Returns whether the comment was (or, in a dry run, would be) posted.
+ */
+export async function commentOnTaskOnce(
+  taskId: string,
+  body: string,
+  options: { key?: string; dryRun?: boolean } = {}
+): Promise<boolean> {
+  const client = await getLinearClient();
+  const issue = await client.issue(taskId);
+  const key = options.key ?? body;
+  
+  const comments = await issue.comments({ first: 100 });
+  if (comments.nodes.some(comment => comment.body.includes(key))) {
+    return false;
   }
-} 
\ No newline at end of file
+  
+  if (!options.dryRun) {
+    await client.createComment({ issueId: issue.id, body });
+  }
+  return true;
+}
+
+/**
+ * Filters for listing tasks; every filter that is set must match.
+ * Without `states`, completed and canceled tasks are left out.
+ */
+export interface TaskListFilter {
+  // Workflow state names or types
+  states?: string[];
+  // Team key or name
+  team?: string;
+  // Part of a project name
+  project?: string;
+  // "current", "next", "previous" or a cycle number
+  cycle?: string;
+  // Matches tasks with any of these labels
+  labels?: string[];
+  // Priority names (urgent, high, medium, low, none) or numbers 0-4
+  priorities?: string[];
+  // List everyone's tasks instead of only those assigned to the current user
+  anyone?: boolean;
+}
+
+/**
+ * Options for listing tasks
+ */
+export interface ListTasksOptions extends TaskListFilter {
+  // Page through every matching task instead of stopping at `limit`
+  all?: boolean;
+  limit?: number;
+}
+
+/**
+ * A task as listed by `linear-pr list`
+ */
+export interface TaskListItem {
+  id: string;
+  taskId: string;
+  title: string;
+  url: string;
+  state: string;
+  stateType: string;
+  team: string;
+  project: string | null;
+  cycle: string | null;
+  labels: string[];
+  priority: number;
+  priorityLabel: string;
+  assignee: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Fetches everything the list shows in one request per page, instead of one request per field per issue
+const LIST_TASKS_QUERY = `
+  query ListTasks($filter: IssueFilter, $first: Int, $after: String) {
+    issues(filter: $filter, first: $first, after: $after, orderBy: updatedAt) {
+      nodes {
+        id
+        identifier
+        title
+        url
+        priority
+        priorityLabel
+        createdAt
+        updatedAt
+        state { name type }
+        team { key }
+        project { name }
+        cycle { name number }
+        assignee { name }
+        labels { nodes { name } }
+      }
+      pageInfo { hasNextPage endCursor }
+    }
+  }
+`;
+
+interface ListTasksResponse {
+  issues: {
+    nodes: Array<{
+      id: string;
+      identifier: string;
+      title: string;
+      url: string;
+      priority: number;
+      priorityLabel: string;
+      createdAt: string;
+      updatedAt: string;
+      state: { name: string; type: string } | null;
+      team: { key: string } | null;
+      project: { name: string } | null;
+      cycle: { name: string | null; number: number } | null;
+      assignee: { name: string } | null;
+      labels: { nodes: Array<{ name: string }> };
+    }>;
+    pageInfo: { hasNextPage: boolean; endCursor?: string };
+  };
+}
+
+/**
+ * Build the Linear issue filter for a task list
+ */
+export function buildTaskFilter(filter: TaskListFilter): Record<string, unknown> {
+  const conditions: Record<string, unknown>[] = [];
+  
+  if (!filter.anyone) {
+    conditions.push({ assignee: { isMe: { eq: true } } });
+  }
+  
+  if (filter.states?.length) {
+    conditions.push({
+      or: filter.states.map(state => WORKFLOW_STATE_TYPES.includes(state.toLowerCase())
+        ? { state: { type: { eq: state.toLowerCase() } } }
+        : { state: { name: { eqIgnoreCase: state } } })
+    });
+  } else {
+    conditions.push({ state: { type: { nin: ['completed', 'canceled'] } } });
+  }
+  
+  if (filter.team) {
+    conditions.push({ team: { or: [{ key: { eqIgnoreCase: filter.team } }, { name: { eqIgnoreCase: filter.team } }] } });
+  }
+  
+  if (filter.project) {
+    conditions.push({ project: { name: { containsIgnoreCase: filter.project } } });
+  }
+  
+  if (filter.cycle) {
+    const cycle = filter.cycle.toLowerCase();
+    const relative: Record<string, string> = { current: 'isActive', next: 'isNext', previous: 'isPrevious' };
+    if (relative[cycle]) {
+      conditions.push({ cycle: { [relative[cycle]]: { eq: true } } });
+    } else if (/^\d+$/.test(cycle)) {
+      conditions.push({ cycle: { number: { eq: parseInt(cycle, 10) } } });
+    } else {
+      throw new Error(`Invalid cycle "${filter.cycle}". Use current, next, previous or a cycle number.`);
+    }
+  }
+  
+  if (filter.labels?.length) {
+    conditions.push({ labels: { some: { name: { in: filter.labels } } } });
+  }
+  
+  if (filter.priorities?.length) {
+    const priorities = filter.priorities.map(priority => {
+      const value = /^\d$/.test(priority) ? parseInt(priority, 10) : PRIORITIES[priority.toLowerCase()];
+      if (value === undefined || value > 4) {
+        throw new Error(`Invalid priority "${priority}". Use ${Object.keys(PRIORITIES).join(', ')} or 0-4.`);
+      }
+      return value;
+    });
+    conditions.push({ priority: { in: priorities } });
+  }
+  
+  return { and: conditions };
+}
+
+/**
+ * List tasks matching the filters, most recently updated first
+ */
+export async function listTasks(options: ListTasksOptions = {}): Promise<TaskListItem[]> {
+  const client = await getLinearClient();
+  const limit = options.limit ?? 50;
+  const filter = buildTaskFilter(options);
+  const tasks: TaskListItem[] = [];
+  
+  try {
+    let after: string | undefined;
+    do {
+      const { issues } = await client.client.request<ListTasksResponse, Record<string, unknown>>(LIST_TASKS_QUERY, {
+        filter,
+        first: options.all ? 100 : Math.min(limit - tasks.length, 100),
+        after
+      });
+      
+      for (const issue of issues.nodes) {
+        tasks.push({
+          id: issue.id,
+          taskId: issue.identifier,
+          title: issue.title,
+          url: issue.url,
+          state: issue.state?.name || 'Unknown',
+          stateType: issue.state?.type || 'unknown',
+          team: issue.team?.key || '',
+          project: issue.project?.name || null,
+          cycle: issue.cycle ? issue.cycle.name || `Cycle ${issue.cycle.number}` : null,
+          labels: issue.labels.nodes.map(label => label.name),
+          priority: issue.priority,
+          priorityLabel: issue.priorityLabel,
+          assignee: issue.assignee?.name || null,
+          createdAt: issue.createdAt,
+          updatedAt: issue.updatedAt
+        });
+      }
+      
+      const wantMore = options.all || tasks.length < limit;
+      after = wantMore && issues.pageInfo.hasNextPage ? issues.pageInfo.endCursor : undefined;
+    } while (after);
+  } catch (error) {
+    throw toLinearError(error, 'Failed to list tasks');
+  }
+  
+  return tasks;
+}
+
+// Ways a task list can be sorted
+export const TASK_SORT_KEYS = ['updated', 'created', 'id', 'priority', 'state', 'title'] as const;
+export type TaskSortKey = typeof TASK_SORT_KEYS[number];
+
+/**
+ * Sort a task list in place. Priority puts urgent first and no priority last.
+ */
+export function sortTasks(tasks: TaskListItem[], key: TaskSortKey): TaskListItem[] {
+  const priorityRank = (task: TaskListItem) => task.priority === 0 ? 5 : task.priority;
+  const compareIds = (a: TaskListItem, b: TaskListItem) =>
+    a.team.localeCompare(b.team) || parseInt(a.taskId.split('-')[1], 10) - parseInt(b.taskId.split('-')[1], 10);
+  
+  return tasks.sort((a, b) => {
+    switch (key) {
+    case 'updated':
+      return b.updatedAt.localeCompare(a.updatedAt);
+    case 'created':
+      return b.createdAt.localeCompare(a.createdAt);
+    case 'id':
+      return compareIds(a, b);
+    case 'priority':
+      return priorityRank(a) - priorityRank(b) || compareIds(a, b);
+    case 'state':
+      return WORKFLOW_STATE_TYPES.indexOf(a.stateType) - WORKFLOW_STATE_TYPES.indexOf(b.stateType) || a.state.localeCompare(b.state) || compareIds(a, b);
+    case 'title':
+      return a.title.localeCompare(b.title);
+    }
+  });
+}
@@ -0,0 +1,17 @@
+import { format } from 'util';
+
+let output: NodeJS.WritableStream = process.stdout;
+
+/**
+ * Set where progress messages are written, e.g. stderr in --json mode so stdout holds only the result
+ */
+export function setLogStream(stream: NodeJS.WritableStream): void {
+  output = stream;
+}
+
+/**
+ * Write a progress message, formatted like console.log
+ */
+export function log(...args: unknown[]): void {
+  output.write(`${format(...args)}\n`);
+}
@@ -0,0 +1,143 @@
+import { resolveConfig } from './config.js';
+import { findCodeowners, loadCodeowners } from './codeowners.js';
+import { PRIORITY_NAMES } from './types.js';
+
+/**
+ * Labels, reviewers and assignees to add to a PR on top of (or instead of) the mapped ones
+ */
+export interface PullRequestMetadataOptions {
+  // Extra labels (--label)
+  labels?: string[];
+  // Extra reviewers (--reviewer): usernames, or `org/team` for a team
+  reviewers?: string[];
+  // Extra assignees (--assignee)
+  assignees?: string[];
+  // Add labels mapped from the task's Linear labels and priority (default true)
+  autoLabels?: boolean;
+  // Request reviews from the mapped Linear team and the CODEOWNERS of the changed files (default true)
+  autoReviewers?: boolean;
+  // Assign the code host user mapped from the task's Linear assignee (default true)
+  autoAssignee?: boolean;
+}
+
+/**
+ * What a PR is labeled with, who is asked to review it and who it is assigned to
+ */
+export interface PullRequestMetadata {
+  labels: string[];
+  reviewers: string[];
+  // Team slugs, in the organization that owns the repository
+  teamReviewers: string[];
+  assignees: string[];
+}
+
+/**
+ * The parts of a Linear task the metadata is mapped from
+ */
+export interface MetadataSource {
+  teamKey: string;
+  priority: number;
+  labels: string[];
+  assignee: { name: string; email: string } | null;
+}
+
+/**
+ * Look up a Linear user (by email, then display name) in the configured user mapping
+ */
+function mapUser(userMapping: Record<string, string>, ...keys: string[]): string | null {
+  for (const key of keys) {
+    const match = Object.keys(userMapping).find(name => name.toLowerCase() === key.toLowerCase());
+    if (match) {
+      return userMapping[match];
+    }
+  }
+  return null;
+}
+
+/**
+ * Sort a reviewer (`user`, `@user`, `@org/team` or a mapped email) into users and team slugs
+ */
+function addReviewer(metadata: PullRequestMetadata, reviewer: string, userMapping: Record<string, string>): void {
+  const handle = reviewer.replace(/^@/, '');
+  if (handle.includes('/')) {
+    metadata.teamReviewers.push(handle.split('/').pop() as string);
+  } else if (handle.includes('@')) {
+    const user = mapUser(userMapping, handle);
+    if (user) {
+      metadata.reviewers.push(user);
+    }
+  } else {
+    metadata.reviewers.push(handle);
+  }
+}
+
+/**
+ * Drop repeated entries, ignoring case and keeping the first spelling
+ */
+function unique(values: string[]): string[] {
+  const seen = new Set<string>();
+  return values.filter(value => {
+    const key = value.toLowerCase();
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Work out a PR's labels, reviewers and assignees from the task, the configured mappings,
+ * the CODEOWNERS of the changed files and the options
+ */
+export function resolvePullRequestMetadata(
+  task: MetadataSource,
+  changedFiles: string[],
+  options: PullRequestMetadataOptions = {}
+): PullRequestMetadata {
+  const settings = resolveConfig();
+  const userMapping = settings.userMapping || {};
+  const metadata: PullRequestMetadata = { labels: [], reviewers: [], teamReviewers: [], assignees: [] };
+
+  if (options.autoLabels !== false) {
+    const labelMapping = settings.labelMapping || {};
+    for (const label of task.labels) {
+      const match = Object.keys(labelMapping).find(name => name.toLowerCase() === label.toLowerCase());
+      if (match) {
+        metadata.labels.push(labelMapping[match]);
+      }
+    }
+
+    const priorityLabel = settings.priorityLabels?.[PRIORITY_NAMES[task.priority]];
+    if (priorityLabel) {
+      metadata.labels.push(priorityLabel);
+    }
+  }
+  metadata.labels.push(...(options.labels || []));
+
+  if (options.autoReviewers !== false) {
+    const teamReviewer = settings.teamReviewers?.[task.teamKey];
+    if (teamReviewer) {
+      metadata.teamReviewers.push(teamReviewer.replace(/^@/, '').split('/').pop() as string);
+    }
+    if (settings.codeownersReviewers !== false && changedFiles.length > 0) {
+      findCodeowners(loadCodeowners(), changedFiles).forEach(owner => addReviewer(metadata, owner, userMapping));
+    }
+  }
+  (options.reviewers || []).forEach(reviewer => addReviewer(metadata, reviewer, userMapping));
+
+  if (options.autoAssignee !== false && task.assignee) {
+    const assignee = mapUser(userMapping, task.assignee.email, task.assignee.name);
+    if (assignee) {
+      metadata.assignees.push(assignee);
+    }
+  }
+  metadata.assignees.push(...(options.assignees || []).map(assignee => assignee.replace(/^@/, '')));
+
+  return {
+    labels: unique(metadata.labels),
+    reviewers: unique(metadata.reviewers),
+    teamReviewers: unique(metadata.teamReviewers),
+    assignees: unique(metadata.assignees)
+  };
+}
@@ -0,0 +1,365 @@
+import crypto from 'crypto';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import open from 'open';
+import chalk from 'chalk';
+import { resolveConfig, setSetting, deleteSetting } from './config.js';
+import { getSecret, setSecret } from './secrets.js';
+import { prompt } from './prompt.js';
+import { log } from './logger.js';
+
+// Linear's OAuth endpoints
+const LINEAR_AUTHORIZE_URL = 'https://linear.app/oauth/authorize';
+export const LINEAR_TOKEN_URL = 'https://api.linear.app/oauth/token';
+
+// Scopes requested during authorization
+const SCOPES = ['read', 'write'];
+
+// Port for the OAuth callback server unless `linearOAuthPort` is configured
+export const DEFAULT_OAUTH_PORT = 45678;
+
+// Give up waiting for the browser callback after this long
+const OAUTH_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Refresh tokens this long before they actually expire
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+/**
+ * Token response from Linear's OAuth token endpoint
+ */
+export interface OAuthTokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in?: number;
+  refresh_token?: string;
+  scope?: string | string[];
+}
+
+// Refresh in progress, shared so parallel requests don't each spend the refresh token
+let pendingRefresh: Promise<string> | null = null;
+
+/**
+ * Call the token endpoint with the given form parameters
+ */
+export async function requestLinearToken(params: Record<string, string>): Promise<OAuthTokenResponse> {
+  const response = await fetch(LINEAR_TOKEN_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams(params).toString()
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Token request failed (${response.status}): ${errorText}`);
+  }
+
+  const tokenData = await response.json() as OAuthTokenResponse;
+  if (!tokenData.access_token) {
+    throw new Error('Token response did not include an access token');
+  }
+
+  return tokenData;
+}
+
+/**
+ * Persist the tokens from a token response, including the refresh token and expiry
+ */
+export function saveOAuthTokens(tokenData: OAuthTokenResponse): void {
+  setSecret('linearAccessToken', tokenData.access_token);
+  setSetting('isApiKey', false);
+
+  if (tokenData.refresh_token) {
+    setSecret('linearRefreshToken', tokenData.refresh_token);
+  }
+
+  if (tokenData.expires_in) {
+    setSetting('linearTokenExpiry', Date.now() + tokenData.expires_in * 1000);
+  } else {
+    deleteSetting('linearTokenExpiry');
+  }
+}
+
+/**
+ * Check if the stored OAuth access token has expired or is about to
+ */
+export function isLinearTokenExpiring(): boolean {
+  const expiry = resolveConfig().linearTokenExpiry;
+  return typeof expiry === 'number' && Date.now() >= expiry - EXPIRY_MARGIN_MS;
+}
+
+/**
+ * Exchange the stored refresh token for a new access token and persist it
+ */
+export async function refreshLinearAccessToken(): Promise<string> {
+  if (pendingRefresh) {
+    return pendingRefresh;
+  }
+
+  pendingRefresh = (async () => {
+    const refreshToken = getSecret('linearRefreshToken');
+    const clientId = resolveConfig().linearOAuthClientId;
+    const clientSecret = getSecret('linearOAuthClientSecret');
+
+    if (!refreshToken) {
+      throw new Error('No Linear refresh token stored');
+    }
+    if (!clientId || !clientSecret) {
+      throw new Error('Linear OAuth credentials not configured');
+    }
+
+    const tokenData = await requestLinearToken({
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken,
+      client_id: clientId,
+      client_secret: clientSecret
+    });
+
+    saveOAuthTokens(tokenData);
+    return tokenData.access_token;
+  })();
+
+  try {
+    return await pendingRefresh;
+  } finally {
+    pendingRefresh = null;
+  }
+}
+
+/**
+ * Options for the OAuth authorization flow
+ */
+export interface OAuthFlowOptions {
+  // Print the authorization URL and ask for the code instead of opening a browser
+  manual?: boolean;
+}
+
+/**
+ * Get the port for the OAuth callback server. 0 lets the system pick a free port.
+ */
+export function getOAuthPort(): number {
+  const port = resolveConfig().linearOAuthPort;
+  return typeof port === 'number' ? port : DEFAULT_OAUTH_PORT;
+}
+
+/**
+ * Get the redirect URI to register with the Linear OAuth application
+ */
+export function getOAuthRedirectUri(port: number = getOAuthPort()): string {
+  return `http://localhost:${port}/callback`;
+}
+
+/**
+ * Encode bytes as unpadded base64url, as used by PKCE
+ */
+function base64Url(buffer: Buffer): string {
+  return buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Create a PKCE code verifier and its S256 challenge
+ */
+export function createPkcePair(): { verifier: string; challenge: string } {
+  const verifier = base64Url(crypto.randomBytes(32));
+  const challenge = base64Url(crypto.createHash('sha256').update(verifier).digest());
+  return { verifier, challenge };
+}
+
+/**
+ * Build the Linear authorization URL
+ */
+function buildAuthorizationUrl(clientId: string, redirectUri: string, state: string, codeChallenge: string): string {
+  const authUrl = new URL(LINEAR_AUTHORIZE_URL);
+  authUrl.searchParams.append('client_id', clientId);
+  authUrl.searchParams.append('redirect_uri', redirectUri);
+  authUrl.searchParams.append('response_type', 'code');
+  authUrl.searchParams.append('state', state);
+  authUrl.searchParams.append('scope', SCOPES.join(','));
+  authUrl.searchParams.append('code_challenge', codeChallenge);
+  authUrl.searchParams.append('code_challenge_method', 'S256');
+  return authUrl.toString();
+}
+
+/**
+ * Check if we're in a session where a local browser can't be opened (SSH, no display)
+ */
+function isHeadlessSession(): boolean {
+  if (process.env.SSH_CONNECTION || process.env.SSH_TTY) {
+    return true;
+  }
+  return process.platform === 'linux' && !process.env.DISPLAY && !process.env.WAYLAND_DISPLAY;
+}
+
+/**
+ * Render the page shown in the browser after the callback
+ */
+function renderCallbackPage(title: string, message: string): string {
+  const escape = (text: string) => text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><title>linear-pr</title></head><body><h1>${escape(title)}</h1><p>${escape(message)}</p></body></html>`;
+}
+
+/**
+ * Check the callback parameters and return the authorization code
+ */
+function validateCallback(params: URLSearchParams, expectedState: string): string {
+  const state = params.get('state');
+  const expected = Buffer.from(expectedState);
+  if (!state || state.length !== expectedState.length || !crypto.timingSafeEqual(Buffer.from(state), expected)) {
+    throw new Error('Invalid state parameter');
+  }
+
+  const error = params.get('error');
+  if (error) {
+    const description = params.get('error_description');
+    throw new Error(`Authorization error: ${error}${description ? ` (${description})` : ''}`);
+  }
+
+  const code = params.get('code');
+  if (!code) {
+    throw new Error('No authorization code returned');
+  }
+  return code;
+}
+
+/**
+ * Run the loopback flow: open the browser and wait for Linear to redirect back to a local server
+ */
+function performLoopbackFlow(
+  clientId: string,
+  state: string,
+  codeChallenge: string,
+  exchange: (code: string, redirectUri: string) => Promise<OAuthTokenResponse>
+): Promise<OAuthTokenResponse> {
+  return new Promise((resolve, reject) => {
+    let redirectUri = '';
+    let finished = false;
+
+    const finish = (error: Error | null, tokenData?: OAuthTokenResponse) => {
+      if (finished) {
+        return;
+      }
+      finished = true;
+      clearTimeout(timeout);
+      server.close();
+      if (error) {
+        reject(error);
+      } else {
+        resolve(tokenData as OAuthTokenResponse);
+      }
+    };
+
+    const server = http.createServer(async (req, res) => {
+      const requestUrl = new URL(req.url || '/', 'http://localhost');
+
+      // Browsers also ask for things like /favicon.ico; only the callback matters
+      if (requestUrl.pathname !== '/callback' || finished) {
+        res.writeHead(404, { 'Content-Type': 'text/plain' });
+        res.end('Not found');
+        return;
+      }
+
+      try {
+        const code = validateCallback(requestUrl.searchParams, state);
+        const tokenData = await exchange(code, redirectUri);
+
+        res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+        res.end(renderCallbackPage('Authentication successful!', 'You can close this window and return to the CLI.'));
+        finish(null, tokenData);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        res.writeHead(400, { 'Content-Type': 'text/html; charset=utf-8' });
+        res.end(renderCallbackPage('Authentication failed', `${message}. Please return to the CLI and try again.`));
+        finish(error instanceof Error ? error : new Error(message));
+      }
+    });
+
+    // Add a timeout to prevent the server from running indefinitely
+    const timeout = setTimeout(() => {
+      finish(new Error('Authentication timed out after 5 minutes'));
+    }, OAUTH_TIMEOUT_MS);
+
+    server.on('error', (error: NodeJS.ErrnoException) => {
+      if (error.code === 'EADDRINUSE') {
+        finish(new Error(`Port ${getOAuthPort()} is already in use. Set a different port with \`linear-pr config-oauth --port <port>\`.`));
+      } else {
+        finish(error);
+      }
+    });
+
+    // Only listen on the loopback interface; the callback must never be reachable from elsewhere
+    server.listen(getOAuthPort(), 'localhost', () => {
+      const { port } = server.address() as AddressInfo;
+      redirectUri = getOAuthRedirectUri(port);
+      const authUrl = buildAuthorizationUrl(clientId, redirectUri, state, codeChallenge);
+
+      log(chalk.cyan('Opening browser to authorize Linear...'));
+      log(chalk.gray(`If the browser doesn't open, visit:\n${authUrl}`));
+      open(authUrl).catch(() => {
+        log(chalk.yellow('Could not open a browser. Open the URL above manually.'));
+      });
+      log(chalk.yellow('Waiting for authentication...'));
+    });
+  });
+}
+
+/**
+ * Run the manual flow: print the authorization URL and have the user paste back the redirect URL or code
+ */
+async function performManualFlow(
+  clientId: string,
+  state: string,
+  codeChallenge: string,
+  exchange: (code: string, redirectUri: string) => Promise<OAuthTokenResponse>
+): Promise<OAuthTokenResponse> {
+  // Nothing listens in this flow, so an automatic port falls back to the default
+  const redirectUri = getOAuthRedirectUri(getOAuthPort() || DEFAULT_OAUTH_PORT);
+  const authUrl = buildAuthorizationUrl(clientId, redirectUri, state, codeChallenge);
+
+  log(chalk.cyan('Open this URL in a browser on any machine to authorize Linear:'));
+  log(authUrl);
+  log(chalk.yellow('\nAfter approving, the browser is sent to a localhost address that will probably fail to load.'));
+  log(chalk.yellow('Copy the full URL from the address bar and paste it below.\n'));
+
+  const { callback } = await prompt([
+    {
+      type: 'input',
+      name: 'callback',
+      message: 'Paste the redirect URL (or just the code):',
+      validate: (input: string) => !!input.trim() || 'The redirect URL or code is required'
+    }
+  ], { hint: 'Use a Linear API key (LINEAR_API_KEY) in scripts instead of OAuth.' });
+
+  const pasted = String(callback).trim();
+  let code: string;
+  if (/^https?:\/\//i.test(pasted)) {
+    code = validateCallback(new URL(pasted).searchParams, state);
+  } else {
+    // A bare code can't carry the state, but PKCE still ties it to this flow
+    code = pasted;
+  }
+
+  return exchange(code, redirectUri);
+}
+
+/**
+ * Perform the OAuth2 flow (authorization code with PKCE) to get an access token and refresh token
+ */
+export async function performOAuth2Flow(clientId: string, clientSecret: string, options: OAuthFlowOptions = {}): Promise<OAuthTokenResponse> {
+  // Random state guards against CSRF; the PKCE verifier guards against code interception
+  const state = crypto.randomBytes(32).toString('hex');
+  const pkce = createPkcePair();
+
+  const exchange = (code: string, redirectUri: string) => requestLinearToken({
+    client_id: clientId,
+    client_secret: clientSecret,
+    redirect_uri: redirectUri,
+    code,
+    code_verifier: pkce.verifier,
+    grant_type: 'authorization_code'
+  });
+
+  if (options.manual || isHeadlessSession()) {
+    return performManualFlow(clientId, state, pkce.challenge, exchange);
+  }
+
+  return performLoopbackFlow(clientId, state, pkce.challenge, exchange);
+}
@@ -1,19 +1,121 @@
 import chalk from 'chalk';
-import { getTask, isTaskAssignedToCurrentUser } from './linear.js';
-import { createBranch, createPullRequest as createGithubPR } from './github.js';
-import { getCurrentBranch, extractTaskIdFromBranchName, createBranchName, createPRTitle, formatScope } from './utils.js';
-import inquirer from 'inquirer';
+import { getTask, isTaskAssignedToCurrentUser, attachPRToTask } from './linear.js';
+import { getCodeHostProvider, createGithubProvider } from './providers/index.js';
+import type { CodeHostProvider } from './providers/types.js';
+import {
+  extractTaskIdFromBranchName,
+  getTaskIdFromBranch,
+  createBranchName,
+  validateBranchName,
+  createPRTitle,
+  formatScope
+} from './utils.js';
+import {
+  getCurrentBranch,
+  createBranch,
+  planCreateBranch,
+  createSampleCommitIfNeeded,
+  countCommitsAhead,
+  getSampleCommitArgs,
+  getPushArgs,
+  getChangedFiles,
+  formatGitCommand,
+  GitAuthError,
+  NonFastForwardError
+} from './git.js';
+import { resolveConfig } from './config.js';
+import type { BranchNamingMode, LifecycleEvent } from './types.js';
+import { resolvePRTemplate, renderTemplate, formatTaskList } from './template.js';
+import { transitionTask, validateTransitions } from './transitions.js';
+import { prompt } from './prompt.js';
+import { NotAssignedError, wrapError, describeError } from './errors.js';
+import { resolvePullRequestMetadata } from './metadata.js';
+import { findStackCandidates, getStackParentArgs, setStackParent, updateStackLinks } from './stack.js';
+import type { MetadataSource, PullRequestMetadata, PullRequestMetadataOptions } from './metadata.js';
+import { log } from './logger.js';
+import { parseTitleTaskIds } from './title.js';
 
-interface CreatePROptions {
+export interface CreatePROptions extends PullRequestMetadataOptions {
   taskId: string;
+  // Further Linear task IDs the same PR covers; `taskId` is the primary task
+  additionalTaskIds?: string[];
   type: string;
   module?: string;
   enforceAssignment?: boolean;
   useExactBranchName?: boolean;
+  branchNaming?: BranchNamingMode;
+  // Open the PR as a draft (default) or ready for review
+  draft?: boolean;
+  // Move the Linear issue through the configured workflow states (default true)
+  transition?: boolean;
+  // Base the branch and PR on this branch instead of the default branch
+  base?: string;
+  // Stack on the branch of the task's parent or a blocker without asking (true), or never (false)
+  stack?: boolean;
 }
 
-// Valid PR types according to the requirements
-const VALID_PR_TYPES = ['feat', 'fix', 'docs', 'style', 'refactor', 'perf', 'test', 'chore', 'ci', 'build', 'revert'];
+/**
+ * Everything a PR is created from, worked out before anything is changed
+ */
+interface ResolvedPullRequest {
+  task: Awaited<ReturnType<typeof getTask>>;
+  // Every task the PR covers, the primary one first
+  tasks: Awaited<ReturnType<typeof getTask>>[];
+  formattedTaskId: string;
+  type: string;
+  module?: string;
+  branch: string;
+  currentBranch: string;
+  baseBranch: string;
+  // The branch this one is stacked on, when it isn't based on the default branch
+  stackParent: string | null;
+  title: string;
+  body: string;
+  draft: boolean;
+  transition: boolean;
+  openedEvent: LifecycleEvent;
+}
+
+/**
+ * One thing `createPullRequest` would do: a git command, or a change in Linear or on the code host
+ */
+export interface PlannedStep {
+  kind: 'git' | 'linear' | 'codeHost';
+  description: string;
+}
+
+/**
+ * What `createPullRequest` would create, and the steps it would take in order
+ */
+export interface PullRequestPlan extends PullRequestMetadata {
+  taskId: string;
+  taskIds: string[];
+  type: string;
+  module?: string;
+  branch: string;
+  baseBranch: string;
+  title: string;
+  body: string;
+  draft: boolean;
+  steps: PlannedStep[];
+}
+
+/**
+ * What `createPullRequest` made, for scripts that need the PR URL or branch name
+ */
+export interface CreatedPullRequest extends PullRequestMetadata {
+  taskId: string;
+  taskIds: string[];
+  branch: string;
+  baseBranch: string;
+  title: string;
+  number: number;
+  url: string;
+  draft: boolean;
+}
+
+// Default PR types, used unless the config provides its own `prTypes` list
+export const DEFAULT_PR_TYPES = ['feat', 'fix', 'docs', 'style', 'refactor', 'perf', 'test', 'chore', 'ci', 'build', 'revert'];
 
 // Validate scope/module format (lowercase, can contain letters, numbers, and hyphens)
 function validateScope(scope: string): boolean {
@@ -31,26 +133,102 @@ function validateTicketId(ticketId: string): boolean {
 }
 
 /**
- * Main function to create a PR from a Linear task 
+ * Move a task to the workflow state configured for an event, reporting the change.
+ * A failed transition doesn't undo the branch or PR, so it only warns.
  */
-export async function createPullRequest(options: CreatePROptions): Promise<void> {
+async function applyTransition(taskId: string, event: LifecycleEvent): Promise<void> {
+  try {
+    const result = await transitionTask(taskId, event);
+    if (result) {
+      log(chalk.green(`✓ Moved Linear task ${taskId} from "${result.from}" to "${result.to}"`));
+    }
+  } catch (error) {
+    console.warn(chalk.yellow(`Could not update the state of Linear task ${taskId}: ${error instanceof Error ? error.message : String(error)}`));
+  }
+}
+
+/**
+ * Map a PR's labels from every task it covers, and its reviewers and assignee from the primary task
+ */
+function getMetadataSource(tasks: ResolvedPullRequest['tasks']): MetadataSource {
+  return { ...tasks[0], labels: [...new Set(tasks.flatMap(({ labels }) => labels))] };
+}
+
+/**
+ * Describe the labels, reviewers and assignees a new PR gets, one step each
+ */
+function describeMetadata(metadata: PullRequestMetadata): string[] {
+  const reviewers = [...metadata.reviewers, ...metadata.teamReviewers.map(team => `team ${team}`)];
+  return [
+    metadata.labels.length > 0 ? `Add labels: ${metadata.labels.join(', ')}` : '',
+    reviewers.length > 0 ? `Request reviews from ${reviewers.join(', ')}` : '',
+    metadata.assignees.length > 0 ? `Assign ${metadata.assignees.join(', ')}` : ''
+  ].filter(Boolean);
+}
+
+/**
+ * Choose the branch to base a task's branch on: `--base`, else the branch of its parent issue
+ * or a blocking issue if the user picks one (or `--stack` is given), else the default branch
+ */
+async function chooseBaseBranch(task: Awaited<ReturnType<typeof getTask>>, defaultBranch: string, options: CreatePROptions): Promise<string> {
+  if (options.base) {
+    return options.base;
+  }
+  if (options.stack === false || (!task.parentId && task.blockedBy.length === 0)) {
+    return defaultBranch;
+  }
+  
+  const candidates = await findStackCandidates(task);
+  if (candidates.length === 0) {
+    return defaultBranch;
+  }
+  if (options.stack) {
+    return candidates[0].branch;
+  }
+  
+  // Non-interactive runs only stack with --stack or --base
+  const { base } = await prompt([
+    {
+      type: 'list',
+      name: 'base',
+      message: 'Base the branch and PR on:',
+      choices: [
+        ...candidates.map(candidate => ({
+          name: `${candidate.branch} (${candidate.relation === 'parent' ? 'parent' : 'blocked by'} ${candidate.taskId}${candidate.changeRequest ? `, #${candidate.changeRequest.number}` : ''})`,
+          value: candidate.branch
+        })),
+        { name: `${defaultBranch} (default branch)`, value: defaultBranch }
+      ]
+    }
+  ], { defaults: { base: defaultBranch }, hint: 'Pass --stack, --no-stack or --base <branch>.' });
+  return base;
+}
+
+/**
+ * Work out everything a PR is created from (task, type, module, branch, title and body),
+ * prompting where needed but changing nothing
+ */
+async function resolvePullRequest(options: CreatePROptions): Promise<ResolvedPullRequest> {
   // Default to using exact branch name (true)
-  let { taskId, type, module, enforceAssignment = false, useExactBranchName = true } = options;
+  const { taskId, enforceAssignment = false, useExactBranchName = true } = options;
+  let { type, module } = options;
+  const settings = resolveConfig();
+  const validPRTypes = settings.prTypes || DEFAULT_PR_TYPES;
   
   // Validate and format the PR type
-  if (!VALID_PR_TYPES.includes(type.toLowerCase())) {
-    console.log(chalk.red(`Invalid PR type: ${type}`));
-    console.log(chalk.yellow(`Valid types: ${VALID_PR_TYPES.join(', ')}`));
+  if (!validPRTypes.includes(type.toLowerCase())) {
+    log(chalk.red(`Invalid PR type: ${type}`));
+    log(chalk.yellow(`Valid types: ${validPRTypes.join(', ')}`));
     
     // Prompt for a valid type
-    const { newType } = await inquirer.prompt([
+    const { newType } = await prompt([
       {
         type: 'list',
         name: 'newType',
         message: 'Choose a valid PR type:',
-        choices: VALID_PR_TYPES
+        choices: validPRTypes
       }
-    ]);
+    ], { hint: `Pass one of these with --type: ${validPRTypes.join(', ')}` });
     type = newType;
   } else {
     // Ensure type is lowercase
@@ -78,149 +256,389 @@ export async function createPullRequest(options: CreatePROptions): Promise<void>
     exactBranchName = useExactBranchName;
   }
   
-  try {
-    // Check if task is assigned to current user if enforcement is enabled
-    if (enforceAssignment) {
-      const isAssigned = await isTaskAssignedToCurrentUser(extractedTaskId);
-      if (!isAssigned) {
-        throw new Error(`Task ${extractedTaskId} is not assigned to you. Only assigned tasks can be used with --enforce-assignment option.`);
-      }
+  // Check if task is assigned to current user if enforcement is enabled
+  if (enforceAssignment) {
+    const isAssigned = await isTaskAssignedToCurrentUser(extractedTaskId);
+    if (!isAssigned) {
+      throw new NotAssignedError(extractedTaskId);
     }
-    
-    // Fetch the Linear task using the extracted ID
-    const task = await getTask(extractedTaskId);
-    console.log(chalk.blue(`Task: ${task.taskId} - ${task.title}`));
-    
-    // Format the task ID to ensure it matches required pattern (uppercase)
-    const formattedTaskId = task.taskId.toUpperCase();
-    
-    // If no module provided, use the project name from Linear if available
-    if (!module && task.projectName) {
-      module = formatScopeString(task.projectName);
-    } else if (!module) {
-      // Prompt for module if still not available
-      const answers = await inquirer.prompt([
+  }
+  
+  // Fetch the Linear task using the extracted ID
+  const task = await getTask(extractedTaskId);
+  log(chalk.blue(`Task: ${task.taskId} - ${task.title}`));
+  
+  // Format the task ID to ensure it matches required pattern (uppercase)
+  const formattedTaskId = task.taskId.toUpperCase();
+  
+  // Fetch the other tasks the PR covers; the branch, module and stack come from the primary task
+  const additionalTaskIds = [...new Set((options.additionalTaskIds || []).map(id => id.toUpperCase()))]
+    .filter(id => id !== formattedTaskId);
+  const tasks = [task];
+  for (const additionalTaskId of additionalTaskIds) {
+    if (!validateTicketId(additionalTaskId)) {
+      throw new Error(`Invalid Linear task ID: ${additionalTaskId}. Only the first argument can be a branch name.`);
+    }
+    if (enforceAssignment && !(await isTaskAssignedToCurrentUser(additionalTaskId))) {
+      throw new NotAssignedError(additionalTaskId);
+    }
+    const additionalTask = await getTask(additionalTaskId);
+    log(chalk.blue(`Task: ${additionalTask.taskId} - ${additionalTask.title}`));
+    tasks.push(additionalTask);
+  }
+  
+  // Make sure the configured workflow states exist before changing anything
+  const isDraft = options.draft !== false;
+  const openedEvent: LifecycleEvent = isDraft ? 'draftOpened' : 'readyForReview';
+  const transition = options.transition !== false;
+  if (transition) {
+    for (const { taskId: id } of tasks) {
+      await validateTransitions(id, ['branchCreated', openedEvent]);
+    }
+  }
+  
+  // If no module provided, use the project name from Linear if available
+  if (!module && task.projectName) {
+    module = formatScopeString(task.projectName);
+  } else if (!module && settings.requireModule === false) {
+    // The module is optional in this repository's titles, so leave it out
+    module = undefined;
+  } else if (!module) {
+    // Prompt for module if still not available
+    const answers = await prompt([
+      {
+        type: 'input',
+        name: 'module',
+        message: 'Enter module/component name:',
+        validate: (input) => validateScope(input) || 'Module name must be lowercase and can only contain letters, numbers, and hyphens'
+      }
+    ], { hint: 'Pass --module <name>, or set "requireModule": false in the project config.' });
+    module = answers.module;
+  } else {
+    // Ensure module is properly formatted
+    if (!validateScope(module)) {
+      log(chalk.red(`Invalid module format: ${module}`));
+      log(chalk.yellow('Module must be lowercase and can only contain letters, numbers, and hyphens'));
+      
+      // Format the module or prompt for a new one
+      const formattedModule = formatScopeString(module);
+      // Non-interactive runs take the formatted name
+      const { useFormatted } = await prompt([
         {
-          type: 'input',
-          name: 'module',
-          message: 'Enter module/component name:',
-          validate: (input) => validateScope(input) || 'Module name must be lowercase and can only contain letters, numbers, and hyphens'
+          type: 'confirm',
+          name: 'useFormatted',
+          message: `Use '${formattedModule}' as the module name?`,
+          default: true
         }
-      ]);
-      module = answers.module;
-    } else {
-      // Ensure module is properly formatted
-      if (!validateScope(module)) {
-        console.log(chalk.red(`Invalid module format: ${module}`));
-        console.log(chalk.yellow(`Module must be lowercase and can only contain letters, numbers, and hyphens`));
-        
-        // Format the module or prompt for a new one
-        const formattedModule = formatScopeString(module);
-        const { useFormatted } = await inquirer.prompt([
+      ], { defaults: { useFormatted: true }, hint: 'Pass a valid --module.' });
+      
+      if (useFormatted) {
+        module = formattedModule;
+      } else {
+        const { newModule } = await prompt([
           {
-            type: 'confirm',
-            name: 'useFormatted',
-            message: `Use '${formattedModule}' as the module name?`,
-            default: true
+            type: 'input',
+            name: 'newModule',
+            message: 'Enter a valid module name:',
+            validate: (input) => validateScope(input) || 'Module name must be lowercase and can only contain letters, numbers, and hyphens'
           }
-        ]);
-        
-        if (useFormatted) {
-          module = formattedModule;
-        } else {
-          const { newModule } = await inquirer.prompt([
-            {
-              type: 'input',
-              name: 'newModule',
-              message: 'Enter a valid module name:',
-              validate: (input) => validateScope(input) || 'Module name must be lowercase and can only contain letters, numbers, and hyphens'
-            }
-          ]);
-          module = newModule;
-        }
+        ], { hint: 'Pass a valid --module.' });
+        module = newModule;
       }
     }
+  }
+  
+  // Determine branch name based on options
+  const branchNaming = options.branchNaming || settings.branchNaming || 'pattern';
+  let branchName: string;
+  if (exactBranchName) {
+    // Use the exact branch name provided
+    branchName = taskId;
+  } else if (branchNaming === 'linear' && task.branchName) {
+    // Use the branch name Linear suggests, so its GitHub integration links the PR automatically
+    branchName = task.branchName;
+  } else {
+    if (branchNaming === 'linear') {
+      log(chalk.yellow(`Linear has no suggested branch name for ${task.taskId}; formatting one instead.`));
+    }
+    // Create a properly formatted branch name from the task details
+    branchName = createBranchName(task.taskId, task.title, {
+      type,
+      user: settings.githubUsername,
+      pattern: settings.branchPattern,
+      typePrefixes: settings.branchTypePrefixes,
+      maxLength: settings.branchMaxLength
+    });
+  }
+  
+  // Make sure the branch name is one git will accept
+  const branchProblem = validateBranchName(branchName, exactBranchName ? undefined : settings.branchMaxLength);
+  if (branchProblem) {
+    throw new Error(`Invalid branch name "${branchName}": ${branchProblem}`);
+  }
+  
+  // Check if we're already on the correct branch
+  const currentBranch = getCurrentBranch();
+  const defaultBranch = settings.defaultBranch || 'development';
+  const baseBranch = await chooseBaseBranch(task, defaultBranch, options);
+  
+  // Create PR title following the configured title format, e.g. {type}({module}): [{id}] {title}.
+  // A PR covering several tasks uses the combined format, if there is one, with the primary task's title
+  const title = tasks.length > 1
+    ? createPRTitle(type, module, tasks.map(({ taskId: id }) => id), task.title, settings.combinedTitleFormat || settings.titleFormat)
+    : createPRTitle(type, module, formattedTaskId, task.title, settings.titleFormat);
+  
+  // Render the PR body from the configured, repository or built-in template
+  const template = await resolvePRTemplate();
+  if (template.path) {
+    log(chalk.blue(`Using PR template: ${template.path}`));
+  }
+  const taskList = formatTaskList(tasks.map(({ taskId: id, url, title: taskTitle, description }) => ({ id, url, title: taskTitle, description })));
+  let body = renderTemplate(template.content, {
+    task: {
+      id: task.taskId,
+      url: task.url,
+      title: task.title,
+      description: task.description,
+      project: task.projectName,
+      labels: task.labels
+    },
+    taskList,
+    branch: branchName
+  });
+  // Every task must be listed, even when the template only mentions the primary one
+  if (tasks.length > 1 && !/\{\{\s*taskList\s*\}\}/.test(template.content)) {
+    body = `${body.trimEnd()}\n\n## Linear Issues\n\n${taskList}\n`;
+  }
+  
+  return {
+    task,
+    tasks,
+    formattedTaskId,
+    type,
+    module,
+    branch: branchName,
+    currentBranch,
+    baseBranch,
+    stackParent: baseBranch === defaultBranch ? null : baseBranch,
+    title,
+    body,
+    draft: isDraft,
+    transition,
+    openedEvent
+  };
+}
+
+/**
+ * Work out what `createPullRequest` would do, in order, without changing anything
+ * in git, Linear or the code host
+ */
+export async function planPullRequest(options: CreatePROptions): Promise<PullRequestPlan> {
+  try {
+    const resolved = await resolvePullRequest(options);
+    const { task, tasks, branch, baseBranch } = resolved;
+    const provider = getCodeHostProvider();
+    const steps: PlannedStep[] = [];
+    const git = (args: string[]) => steps.push({ kind: 'git', description: formatGitCommand(args) });
     
-    // Determine branch name based on options
-    let branchName: string;
-    if (exactBranchName) {
-      // Use the exact branch name provided
-      branchName = taskId;
+    // Dry-run transitions only report the change; they start from each issue's current state
+    const planTransition = async (event: LifecycleEvent) => {
+      for (const { taskId: id } of tasks) {
+        const result = await transitionTask(id, event, { dryRun: true });
+        if (result) {
+          steps.push({ kind: 'linear', description: `Move ${id} from "${result.from}" to "${result.to}" (${event})` });
+        }
+      }
+    };
+    
+    let needsCommit: boolean;
+    // The files the PR changes, for CODEOWNERS; a new branch has none yet
+    let changedFiles: string[] = [];
+    if (resolved.currentBranch === branch) {
+      needsCommit = (countCommitsAhead(baseBranch) ?? 0) === 0;
+      changedFiles = getChangedFiles(baseBranch);
     } else {
-      // Create a properly formatted branch name from the task details
-      branchName = createBranchName(task.taskId, task.title);
+      const { source, commands } = planCreateBranch(branch, baseBranch);
+      commands.forEach(git);
+      // A new branch starts at the base branch, so it never has commits of its own
+      const ref = source === 'local' ? branch : `origin/${branch}`;
+      needsCommit = source === 'base' || (countCommitsAhead(baseBranch, ref) ?? 0) === 0;
+      changedFiles = source === 'base' ? [] : getChangedFiles(baseBranch, ref);
+    }
+    if (resolved.transition) {
+      await planTransition('branchCreated');
     }
     
-    // Check if we're already on the correct branch
-    const currentBranch = getCurrentBranch();
-    
-    // Create a new branch if needed
-    if (currentBranch !== branchName) {
-      console.log(chalk.yellow(`Creating branch: "${branchName}"`));
-      await createBranch(branchName);
+    if (needsCommit) {
+      git(getSampleCommitArgs(resolved.formattedTaskId));
     }
+    git(getPushArgs(branch));
     
-    // Create PR title with the format: {type}({module}): [{linear task number}] {description}
-    const prTitle = createPRTitle(type, module || 'general', formattedTaskId, task.title);
+    steps.push({
+      kind: 'codeHost',
+      description: `Open ${resolved.draft ? 'a draft' : 'a'} ${provider.displayName} ${provider.changeRequestName} in ${provider.resolveRepository()} from ${branch} into ${baseBranch}`
+    });
+    const metadata = resolvePullRequestMetadata(getMetadataSource(tasks), changedFiles, options);
+    describeMetadata(metadata).forEach(description => steps.push({ kind: 'codeHost', description }));
+    if (resolved.stackParent) {
+      git(getStackParentArgs(branch, resolved.stackParent));
+      steps.push({ kind: 'codeHost', description: `Link the ${provider.changeRequestName} and the one from ${resolved.stackParent} in their descriptions` });
+    }
+    steps.push({
+      kind: 'linear',
+      description: `Attach the ${provider.changeRequestName} to ${tasks.map(({ taskId: id }) => id).join(', ')}${resolveConfig().linearComment ? ' and comment with a link to it' : ''}`
+    });
+    if (resolved.transition) {
+      await planTransition(resolved.openedEvent);
+    }
     
-    // Create PR body that includes link to Linear task
-    const prBody = `This PR addresses Linear task [${task.taskId}](${task.url})
-
-## 📌 Background
-
-<!-- Provide context or background to help reviewers understand why this change is necessary. Include links to related issues, user stories, or documentation if applicable. -->
-
-${task.description}
-
-## 🔧 Reason for Changes
-
-<!-- Explain the problem(s) being solved or what motivated the changes. Include bug report references, feature requests, or business needs. -->
-
-
-
-## ✅ Changes Implemented
-
-<!-- Summarize the changes introduced in this pull request. Bullet points are encouraged for clarity. -->
-
-
-
-## 🔍 Testing Results
-
-<!-- Describe how the changes were tested and what the results were. Include test cases, screenshots, or logs if beneficial. -->
-
-- [ ] Unit tests passed
-- [ ] Integration tests passed
-- [ ] Manually tested in local/uat environment
-
-
-## 🚀 Deployment / Migration Details
-
-<!-- Specify any steps needed for deployment, such as database migrations, environment variable updates, or cron jobs. -->
-
+    return {
+      taskId: task.taskId,
+      taskIds: tasks.map(({ taskId: id }) => id),
+      type: resolved.type,
+      module: resolved.module,
+      branch,
+      baseBranch,
+      title: resolved.title,
+      body: resolved.body,
+      draft: resolved.draft,
+      ...metadata,
+      steps
+    };
+  } catch (error) {
+    throw wrapError('Failed to plan PR', error);
+  }
+}
 
----
+/**
+ * Give a branch what a pull/merge request needs: at least one commit, and the branch on the remote
+ */
+function prepareBranchForChangeRequest(provider: CodeHostProvider, branchName: string, taskId: string, baseBranch: string): void {
+  createSampleCommitIfNeeded(taskId, baseBranch);
+  try {
+    log(chalk.blue(`Pushing branch "${branchName}" to remote...`));
+    provider.pushBranch(branchName);
+  } catch (error) {
+    // The branch can't reach the remote until these are fixed, so there is nothing to open a request from
+    if (error instanceof GitAuthError || error instanceof NonFastForwardError) {
+      throw error;
+    }
+    const { message, hint } = describeError(error);
+    console.warn(chalk.yellow(`Failed to push branch: ${message}${hint ? `\n${hint}` : ''}`));
+    console.warn(chalk.yellow(`Attempting to create the ${provider.changeRequestName} anyway.`));
+  }
+}
 
-### 📝 Additional Notes (Optional)
+/**
+ * Create a GitHub pull request from a branch, committing and pushing it first.
+ * Kept for library users; `createPullRequest` does this and more from a Linear task.
+ */
+export async function createGithubPullRequest(
+  title: string,
+  body: string,
+  branch: string,
+  baseBranch: string = resolveConfig().defaultBranch || 'development',
+  isDraft: boolean = true
+): Promise<string> {
+  // The task IDs for the sample commit, read from the title in the formats it could have been created with
+  const settings = resolveConfig();
+  const taskIds = parseTitleTaskIds(title, [settings.combinedTitleFormat, settings.titleFormat]);
+  const taskId = taskIds.join(', ') || getTaskIdFromBranch(branch) || 'TASK';
 
-<!-- Any extra information or considerations for reviewers or testers. -->
+  const provider = createGithubProvider();
+  prepareBranchForChangeRequest(provider, branch, taskId, baseBranch);
+  const pullRequest = await provider.createChangeRequest({ title, body, sourceBranch: branch, targetBranch: baseBranch, draft: isDraft });
+  return pullRequest.url;
+}
 
-<!-- Mention relevant team members or reviewers if needed. -->`;
+/**
+ * Main function to create a PR from a Linear task 
+ */
+export async function createPullRequest(options: CreatePROptions): Promise<CreatedPullRequest> {
+  try {
+    const {
+      task,
+      tasks,
+      formattedTaskId,
+      branch: branchName,
+      currentBranch,
+      baseBranch,
+      stackParent,
+      title: prTitle,
+      body: prBody,
+      draft: isDraft,
+      transition,
+      openedEvent
+    } = await resolvePullRequest(options);
+    
+    // Create a new branch if needed
+    if (currentBranch !== branchName) {
+      log(chalk.yellow(`Creating branch: "${branchName}"`));
+      await createBranch(branchName, baseBranch);
+    }
+    if (transition) {
+      for (const { taskId: id } of tasks) {
+        await applyTransition(id, 'branchCreated');
+      }
+    }
+    
+    const provider = getCodeHostProvider();
+    prepareBranchForChangeRequest(provider, branchName, formattedTaskId, baseBranch);
+    
+    // Labels, reviewers and assignees come from the task, the config mappings and CODEOWNERS
+    const metadata = resolvePullRequestMetadata(getMetadataSource(tasks), getChangedFiles(baseBranch), options);
     
     // Create the PR - pass the exact branch name
-    console.log(chalk.blue(`Creating PR: ${prTitle}`));
-    const prUrl = await createGithubPR(
-      prTitle,
-      prBody,
-      branchName
-    );
+    log(chalk.blue(`Creating PR: ${prTitle}`));
+    const changeRequest = await provider.createChangeRequest({
+      title: prTitle,
+      body: prBody,
+      sourceBranch: branchName,
+      targetBranch: baseBranch,
+      draft: isDraft,
+      ...metadata,
+      createMissingLabels: resolveConfig().createMissingLabels
+    });
     
-    console.log(chalk.green(`✓ Pull request created: ${prUrl}`));
+    log(chalk.green(`✓ ${provider.displayName} ${provider.changeRequestName} created: ${changeRequest.url}`));
     
-    // Update the Linear task with the PR link
-    // await attachPRToTask(task.taskId, prUrl);
+    // Record the stack for `restack`, and link the PRs both ways
+    if (stackParent) {
+      try {
+        setStackParent(branchName, stackParent);
+        await updateStackLinks(branchName, provider);
+        await updateStackLinks(stackParent, provider);
+        log(chalk.green(`✓ Stacked on ${stackParent}`));
+      } catch (error) {
+        console.warn(chalk.yellow(`Could not link the ${provider.changeRequestName} to the one from ${stackParent}: ${error instanceof Error ? error.message : String(error)}`));
+      }
+    }
+    
+    // Link the PR to every Linear task it covers
+    for (const { taskId: id } of tasks) {
+      if (await attachPRToTask(id, changeRequest, provider)) {
+        log(chalk.green(`✓ Linked the ${provider.changeRequestName} to Linear task ${id}`));
+      }
+    }
+    
+    if (transition) {
+      for (const { taskId: id } of tasks) {
+        await applyTransition(id, openedEvent);
+      }
+    }
     
-    console.log(chalk.green(`✓ Updated Linear task ${task.taskId} with PR link`));
+    return {
+      taskId: task.taskId,
+      taskIds: tasks.map(({ taskId: id }) => id),
+      branch: branchName,
+      baseBranch,
+      title: prTitle,
+      number: changeRequest.number,
+      url: changeRequest.url,
+      draft: isDraft,
+      ...metadata
+    };
   } catch (error) {
-    throw new Error(`Failed to create PR: ${error instanceof Error ? error.message : String(error)}`);
+    throw wrapError('Failed to create PR', error);
   }
 } 
\ No newline at end of file
@@ -0,0 +1,58 @@
+import { config, getProfiles } from './config.js';
+import { deleteProfileSecrets } from './secrets.js';
+import type { Config, Profile } from './types.js';
+
+// Profile names become part of config keys, so keep them simple
+const PROFILE_NAME_PATTERN = /^[\w-]+$/;
+
+/**
+ * Make sure a profile exists
+ */
+function assertProfileExists(name: string): void {
+  if (!getProfiles()[name]) {
+    throw new Error(`Profile "${name}" does not exist. Run \`linear-pr profile list\` to see the available profiles.`);
+  }
+}
+
+/**
+ * Create a new profile
+ */
+export function addProfile(name: string, profile: Profile = {}): void {
+  if (!PROFILE_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid profile name "${name}". Use letters, numbers, dashes and underscores only.`);
+  }
+  if (getProfiles()[name]) {
+    throw new Error(`Profile "${name}" already exists.`);
+  }
+
+  config.set(`profiles.${name}`, profile);
+}
+
+/**
+ * Make a profile the default when no other selection applies
+ */
+export function useProfile(name: string): void {
+  assertProfileExists(name);
+  config.set('activeProfile', name);
+}
+
+/**
+ * Stop using a default profile, going back to the global settings
+ */
+export function clearDefaultProfile(): void {
+  config.delete('activeProfile');
+}
+
+/**
+ * Delete a profile together with its stored credentials
+ */
+export function removeProfile(name: string): void {
+  assertProfileExists(name);
+
+  config.delete(`profiles.${name}` as keyof Config);
+  deleteProfileSecrets(name);
+
+  if (config.get('activeProfile') === name) {
+    clearDefaultProfile();
+  }
+}
@@ -0,0 +1,212 @@
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { LIFECYCLE_EVENTS, PRIORITY_NAMES } from './types.js';
+import type { ProjectConfig } from './types.js';
+import { findUnknownBranchPlaceholders } from './utils.js';
+import { validateTitleFormat } from './title.js';
+
+// File names searched for in each directory, in order of preference
+export const PROJECT_CONFIG_FILES = ['.linear-pr.json', '.linear-pr.yaml', '.linear-pr.yml', '.linear-pr'];
+
+type FieldValidator = (value: unknown, key: string) => string | null;
+
+/**
+ * Error raised when a project config file cannot be parsed or fails validation
+ */
+export class ProjectConfigError extends Error {
+  constructor(public readonly file: string, public readonly key: string | null, message: string) {
+    super(key ? `${file}: "${key}" ${message}` : `${file}: ${message}`);
+    this.name = 'ProjectConfigError';
+  }
+}
+
+function nonEmptyString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() !== '' ? null : 'must be a non-empty string';
+}
+
+function stringArray(value: unknown, key: string): string | null {
+  if (!Array.isArray(value)) {
+    return 'must be an array of strings';
+  }
+  if (value.length === 0) {
+    return 'must contain at least one entry';
+  }
+  const badIndex = value.findIndex(item => nonEmptyString(item) !== null);
+  return badIndex === -1 ? null : `must contain only non-empty strings (see ${key}[${badIndex}])`;
+}
+
+function stringMap(value: unknown, key: string): string | null {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    return 'must be an object mapping names to strings';
+  }
+  const badKey = Object.keys(value).find(name => nonEmptyString((value as Record<string, unknown>)[name]) !== null);
+  return badKey === undefined ? null : `must map every entry to a non-empty string (see ${key}.${badKey})`;
+}
+
+function transitionMap(value: unknown, key: string): string | null {
+  const problem = stringMap(value, key);
+  if (problem) {
+    return problem;
+  }
+  const unknownEvent = Object.keys(value as object).find(event => !(LIFECYCLE_EVENTS as readonly string[]).includes(event));
+  return unknownEvent === undefined ? null : `has an unknown event "${unknownEvent}" (expected one of: ${LIFECYCLE_EVENTS.join(', ')})`;
+}
+
+function priorityMap(value: unknown, key: string): string | null {
+  const problem = stringMap(value, key);
+  if (problem) {
+    return problem;
+  }
+  const unknownPriority = Object.keys(value as object).find(priority => !(PRIORITY_NAMES as readonly string[]).includes(priority));
+  return unknownPriority === undefined ? null : `has an unknown priority "${unknownPriority}" (expected one of: ${PRIORITY_NAMES.join(', ')})`;
+}
+
+function boolean(value: unknown): string | null {
+  return typeof value === 'boolean' ? null : 'must be true or false';
+}
+
+function oneOf(...allowed: string[]): FieldValidator {
+  return (value) => allowed.includes(value as string) ? null : `must be one of: ${allowed.join(', ')}`;
+}
+
+function positiveInteger(value: unknown): string | null {
+  return Number.isInteger(value) && (value as number) > 0 ? null : 'must be a positive whole number';
+}
+
+// Schema for the project config file: every supported key and how to validate it
+const PROJECT_CONFIG_SCHEMA: Record<keyof ProjectConfig, FieldValidator> = {
+  githubRepo: (value) => {
+    const valid = typeof value === 'string' && /^[\w.-]+\/[\w.-]+$/.test(value);
+    return valid ? null : 'must be a repository path in the form owner/repo';
+  },
+  githubHost: (value) => {
+    const valid = typeof value === 'string' && /^[\w.-]+(:\d+)?$/.test(value);
+    return valid ? null : 'must be a host name like github.example.com (without https://)';
+  },
+  githubApiUrl: (value) => {
+    const valid = typeof value === 'string' && /^https?:\/\/\S+$/.test(value);
+    return valid ? null : 'must be an http(s) URL like https://github.example.com/api/v3';
+  },
+  codeHost: oneOf('github', 'gitlab'),
+  gitlabHost: (value) => {
+    const valid = typeof value === 'string' && /^[\w.-]+(:\d+)?$/.test(value);
+    return valid ? null : 'must be a host name like gitlab.example.com (without https://)';
+  },
+  gitlabApiUrl: (value) => {
+    const valid = typeof value === 'string' && /^https?:\/\/\S+$/.test(value);
+    return valid ? null : 'must be an http(s) URL like https://gitlab.example.com/api/v4';
+  },
+  defaultBranch: nonEmptyString,
+  prTypes: stringArray,
+  titleFormat: (value) => nonEmptyString(value) ?? validateTitleFormat(value as string),
+  combinedTitleFormat: (value) => nonEmptyString(value) ?? validateTitleFormat(value as string),
+  requireModule: boolean,
+  branchNaming: oneOf('pattern', 'linear'),
+  branchPattern: (value) => {
+    if (nonEmptyString(value)) {
+      return 'must be a non-empty string';
+    }
+    const unknown = findUnknownBranchPlaceholders(value as string);
+    return unknown.length === 0 ? null : `uses unknown placeholder(s): ${unknown.map(name => `{${name}}`).join(', ')}`;
+  },
+  branchTypePrefixes: stringMap,
+  branchMaxLength: positiveInteger,
+  templatePath: nonEmptyString,
+  linearComment: boolean,
+  transitions: transitionMap,
+  labelMapping: stringMap,
+  priorityLabels: priorityMap,
+  createMissingLabels: boolean,
+  teamReviewers: stringMap,
+  userMapping: stringMap,
+  codeownersReviewers: boolean
+};
+
+/**
+ * Validate a parsed project config object against the schema
+ */
+export function validateProjectConfig(data: unknown, file: string): ProjectConfig {
+  if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+    throw new ProjectConfigError(file, null, 'must contain an object at the top level');
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (!(key in PROJECT_CONFIG_SCHEMA)) {
+      const known = Object.keys(PROJECT_CONFIG_SCHEMA).join(', ');
+      throw new ProjectConfigError(file, key, `is not a supported setting (expected one of: ${known})`);
+    }
+
+    const problem = PROJECT_CONFIG_SCHEMA[key as keyof ProjectConfig](value, key);
+    if (problem) {
+      throw new ProjectConfigError(file, key, problem);
+    }
+    result[key] = value;
+  }
+
+  return result as ProjectConfig;
+}
+
+/**
+ * Find the nearest project config file by walking up from the given directory
+ */
+export function findProjectConfigFile(startDir: string = process.cwd()): string | null {
+  let dir = path.resolve(startDir);
+
+  for (;;) {
+    for (const name of PROJECT_CONFIG_FILES) {
+      const candidate = path.join(dir, name);
+      if (fs.existsSync(candidate) && fs.statSync(candidate).isFile()) {
+        return candidate;
+      }
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Read, parse and validate a project config file
+ */
+export function readProjectConfig(file: string): ProjectConfig {
+  const contents = fs.readFileSync(file, 'utf8');
+
+  let data: unknown;
+  try {
+    // .json files get the strict parser; anything else is YAML, which also accepts JSON
+    data = file.endsWith('.json') ? JSON.parse(contents) : YAML.parse(contents);
+  } catch (error) {
+    throw new ProjectConfigError(file, null, `could not be parsed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  // An empty file is a valid (if pointless) config
+  if (data === null || data === undefined) {
+    return {};
+  }
+
+  const projectConfig = validateProjectConfig(data, file);
+
+  // Template paths are relative to the file that declares them
+  if (projectConfig.templatePath) {
+    projectConfig.templatePath = path.resolve(path.dirname(file), projectConfig.templatePath);
+  }
+
+  return projectConfig;
+}
+
+/**
+ * Load the project config that applies to the given directory, if any
+ */
+export function loadProjectConfig(startDir: string = process.cwd()): { file: string; config: ProjectConfig } | null {
+  const file = findProjectConfigFile(startDir);
+  if (!file) {
+    return null;
+  }
+
+  return { file, config: readProjectConfig(file) };
+}
@@ -0,0 +1,49 @@
+import inquirer from 'inquirer';
+import type { Answers, DistinctQuestion } from 'inquirer';
+import { InputRequiredError } from './errors.js';
+
+/**
+ * Options for a prompt that may run without a terminal
+ */
+export interface PromptOptions {
+  // Answers used in non-interactive mode; any question without one fails
+  defaults?: Answers;
+  // How to supply the answer instead, e.g. "Pass --module <name>."
+  hint: string;
+}
+
+let nonInteractive = false;
+
+/**
+ * Turn non-interactive mode on or off (`--non-interactive`/`--yes`)
+ */
+export function setNonInteractive(value: boolean): void {
+  nonInteractive = value;
+}
+
+/**
+ * Check if prompts can be shown: not in non-interactive mode, and stdin is a terminal
+ */
+export function isInteractive(): boolean {
+  return !nonInteractive && Boolean(process.stdin.isTTY);
+}
+
+/**
+ * Ask the questions with inquirer, or in non-interactive mode answer them from `defaults`
+ * and fail with an InputRequiredError for any question that has no default
+ */
+export async function prompt(questions: DistinctQuestion[], options: PromptOptions): Promise<Answers> {
+  if (isInteractive()) {
+    return inquirer.prompt(questions);
+  }
+
+  const answers: Answers = {};
+  for (const question of questions) {
+    const answer = options.defaults?.[question.name];
+    if (answer === undefined) {
+      throw new InputRequiredError(typeof question.message === 'string' ? question.message : question.name, options.hint);
+    }
+    answers[question.name] = answer;
+  }
+  return answers;
+}
@@ -0,0 +1,44 @@
+import {
+  getGithubClient,
+  getGithubHost,
+  setupGithub,
+  resolveGithubRepo,
+  openPullRequest,
+  updatePullRequest,
+  findPullRequestForBranch,
+  getPullRequest,
+  findPullRequestsForTasks,
+  parsePullRequestUrl,
+  getPullRequestReviewStatus,
+  getPullRequestDetails
+} from '../github.js';
+import { pushBranch } from '../git.js';
+import type { CodeHostProvider } from './types.js';
+
+/**
+ * Create the provider for GitHub and GitHub Enterprise Server
+ */
+export function createGithubProvider(): CodeHostProvider {
+  return {
+    name: 'github',
+    displayName: 'GitHub',
+    changeRequestName: 'pull request',
+    host: getGithubHost(),
+    setup: setupGithub,
+    authenticate: async () => {
+      const { data: user } = await getGithubClient().rest.users.getAuthenticated();
+      return user.login;
+    },
+    resolveRepository: resolveGithubRepo,
+    pushBranch: (branch) => pushBranch(branch),
+    createChangeRequest: openPullRequest,
+    updateChangeRequest: updatePullRequest,
+    findChangeRequest: findPullRequestForBranch,
+    getChangeRequest: getPullRequest,
+    findChangeRequestsForTasks: findPullRequestsForTasks,
+    parseChangeRequestUrl: parsePullRequestUrl,
+    getChangeRequestUrlPrefix: () => `https://${getGithubHost()}/${resolveGithubRepo()}/pull/`,
+    getReviewStatus: getPullRequestReviewStatus,
+    getChangeRequestDetails: getPullRequestDetails
+  };
+}
@@ -0,0 +1,452 @@
+import chalk from 'chalk';
+import { resolveConfig, setSetting } from '../config.js';
+import { getGitlabCredential, describeCredentialSource } from '../credentials.js';
+import { detectRemoteRepository } from '../remote.js';
+import { setSecret } from '../secrets.js';
+import { prompt } from '../prompt.js';
+import { LinearPrError, AuthError, RepositoryNotConfiguredError, PullRequestExistsError, RateLimitError, wrapError } from '../errors.js';
+import { containsTaskId } from '../utils.js';
+import { pushBranch } from '../git.js';
+import type {
+  ChangeRequest,
+  ChangeRequestState,
+  CheckResult,
+  CodeHostProvider,
+  ReviewDecision,
+  UpdateChangeRequestParams
+} from './types.js';
+import { log } from '../logger.js';
+
+// Public GitLab, used when neither the config nor the remote names a host
+export const GITLAB_DOT_COM = 'gitlab.com';
+
+// GitLab marks drafts with a title prefix; these are the forms it recognizes
+const DRAFT_TITLE_PREFIX = /^(draft:|\[draft\]|\(draft\))\s*/i;
+
+/**
+ * Overrides for the GitLab provider, e.g. to point it at a local HTTP stand-in
+ */
+export interface GitlabProviderOptions {
+  host?: string;
+  apiUrl?: string;
+  token?: string;
+  // Project path (group/subgroup/project); detected from the origin remote otherwise
+  project?: string;
+}
+
+// The parts of a merge request from the REST API that the CLI uses
+interface GitlabMergeRequest {
+  iid: number;
+  web_url: string;
+  title: string;
+  description: string | null;
+  state: 'opened' | 'closed' | 'locked' | 'merged';
+  draft?: boolean;
+  work_in_progress?: boolean;
+  source_branch: string;
+  target_branch: string;
+  detailed_merge_status?: string;
+  head_pipeline?: { id: number } | null;
+  reviewers?: Array<{ username: string }>;
+}
+
+// The parts of a pipeline job from the REST API that the CLI uses
+interface GitlabJob {
+  name: string;
+  status: string;
+  allow_failure: boolean;
+  web_url: string;
+}
+
+// Merge statuses that mean GitLab hasn't finished checking mergeability
+const PENDING_MERGE_STATUSES = ['unchecked', 'checking', 'preparing', 'approvals_syncing'];
+
+/**
+ * Map a pipeline job status to a check result status
+ */
+function toCheckStatus(job: GitlabJob): CheckResult['status'] {
+  switch (job.status) {
+  case 'success':
+    return 'success';
+  case 'failed':
+    return job.allow_failure ? 'neutral' : 'failure';
+  case 'canceled':
+  case 'skipped':
+  case 'manual':
+    return 'neutral';
+  default:
+    return 'pending';
+  }
+}
+
+/**
+ * Get the GitLab host: the configured `gitlabHost`, else the origin remote's host
+ */
+export function getGitlabHost(): string {
+  const configuredHost = resolveConfig().gitlabHost;
+  if (configuredHost) {
+    return configuredHost.toLowerCase();
+  }
+
+  const remoteHost = detectRemoteRepository()?.host;
+  return remoteHost && remoteHost.includes('.') ? remoteHost : GITLAB_DOT_COM;
+}
+
+/**
+ * Get the REST API base URL for a GitLab host: the configured `gitlabApiUrl`, else https://<host>/api/v4
+ */
+export function getGitlabApiUrl(host: string = getGitlabHost()): string {
+  const configuredUrl = resolveConfig().gitlabApiUrl;
+  return (configuredUrl || `https://${host}/api/v4`).replace(/\/+$/, '');
+}
+
+/**
+ * Convert a merge request from the REST API into the provider-neutral shape
+ */
+function toChangeRequest(mergeRequest: GitlabMergeRequest): ChangeRequest {
+  const isDraft = mergeRequest.draft ?? mergeRequest.work_in_progress ?? DRAFT_TITLE_PREFIX.test(mergeRequest.title);
+
+  let state: ChangeRequestState = 'open';
+  if (mergeRequest.state === 'merged') {
+    state = 'merged';
+  } else if (mergeRequest.state === 'closed') {
+    state = 'closed';
+  } else if (isDraft) {
+    state = 'draft';
+  }
+
+  return {
+    number: mergeRequest.iid,
+    url: mergeRequest.web_url,
+    title: mergeRequest.title.replace(DRAFT_TITLE_PREFIX, ''),
+    state,
+    sourceBranch: mergeRequest.source_branch,
+    targetBranch: mergeRequest.target_branch,
+    body: mergeRequest.description || ''
+  };
+}
+
+/**
+ * Add or remove the draft marker on a merge request title
+ */
+function applyDraftPrefix(title: string, draft: boolean): string {
+  const plainTitle = title.replace(DRAFT_TITLE_PREFIX, '');
+  return draft ? `Draft: ${plainTitle}` : plainTitle;
+}
+
+/**
+ * Turn a failed GitLab API response into a typed error, using the status, the rate limit headers
+ * and GitLab's own error message
+ */
+function toGitlabError(response: Response, text: string): LinearPrError {
+  let detail = text;
+  try {
+    const body = JSON.parse(text) as { message?: unknown; error?: unknown };
+    const message = body.message ?? body.error;
+    if (message !== undefined) {
+      detail = Array.isArray(message) ? message.join('; ') : typeof message === 'string' ? message : JSON.stringify(message);
+    }
+  } catch {
+    // Not JSON; use the text as it is
+  }
+
+  // What the API answered, for reporting along with the typed error
+  const cause = new Error(`${response.url} responded ${response.status} ${response.statusText}`.trim());
+  if (response.status === 401) {
+    return new AuthError(`GitLab rejected the token: ${detail}`, { cause });
+  }
+  if (response.status === 429) {
+    const reset = Number(response.headers.get('ratelimit-reset'));
+    return new RateLimitError('GitLab', reset ? new Date(reset * 1000) : null, { cause });
+  }
+  if (response.status === 409 && /already exists/i.test(detail)) {
+    return new PullRequestExistsError(detail, { cause });
+  }
+  return new LinearPrError(`GitLab API request failed (${response.status}): ${detail}`, { cause });
+}
+
+/**
+ * Create the provider for GitLab.com and self-hosted GitLab, talking to the REST API (v4)
+ */
+export function createGitlabProvider(options: GitlabProviderOptions = {}): CodeHostProvider {
+  const host = options.host || getGitlabHost();
+  const apiUrl = (options.apiUrl || getGitlabApiUrl(host)).replace(/\/+$/, '');
+
+  const getToken = (): string => {
+    const token = options.token || getGitlabCredential()?.token;
+    if (!token) {
+      throw new AuthError(`GitLab (${host}) is not set up`, { hint: 'Run `linear-pr setup`, or set GITLAB_TOKEN.' });
+    }
+    return token;
+  };
+
+  const request = async <T>(method: string, endpoint: string, body?: Record<string, unknown>, token: string = getToken()): Promise<T> => {
+    const response = await fetch(`${apiUrl}${endpoint}`, {
+      method,
+      headers: {
+        'PRIVATE-TOKEN': token,
+        'Content-Type': 'application/json'
+      },
+      body: body ? JSON.stringify(body) : undefined
+    });
+
+    if (!response.ok) {
+      throw toGitlabError(response, await response.text());
+    }
+
+    return await response.json() as T;
+  };
+
+  const resolveRepository = (): string => {
+    if (options.project) {
+      return options.project;
+    }
+
+    const remoteRepo = detectRemoteRepository();
+    if (!remoteRepo) {
+      throw new RepositoryNotConfiguredError('Could not detect the GitLab project from the origin remote', {
+        hint: 'Run inside a clone of the GitLab project.'
+      });
+    }
+    return `${remoteRepo.owner}/${remoteRepo.repo}`;
+  };
+
+  // Project paths are passed URL-encoded in place of the numeric project ID
+  const projectEndpoint = (): string => `/projects/${encodeURIComponent(resolveRepository())}`;
+
+  const getMergeRequest = (iid: number): Promise<GitlabMergeRequest> =>
+    request<GitlabMergeRequest>('GET', `${projectEndpoint()}/merge_requests/${iid}`);
+
+  // Usernames resolved to user IDs, skipping (with a warning) any GitLab doesn't know
+  const findUserIds = async (usernames: string[]): Promise<number[]> => {
+    const ids: number[] = [];
+    for (const username of usernames) {
+      const users = await request<Array<{ id: number }>>('GET', `/users?${new URLSearchParams({ username })}`);
+      if (users.length > 0) {
+        ids.push(users[0].id);
+      } else {
+        console.warn(chalk.yellow(`Skipping unknown GitLab user: ${username}`));
+      }
+    }
+    return ids;
+  };
+
+  // Of the requested labels, keep those the project (or its groups) has, in its spelling
+  const findExistingLabels = async (labels: string[]): Promise<string[]> => {
+    const existing: string[] = [];
+    for (const label of labels) {
+      const query = new URLSearchParams({ search: label, include_ancestor_groups: 'true', per_page: '100' });
+      const matches = await request<Array<{ name: string }>>('GET', `${projectEndpoint()}/labels?${query}`);
+      const match = matches.find(candidate => candidate.name.toLowerCase() === label.toLowerCase());
+      if (match) {
+        existing.push(match.name);
+      } else {
+        console.warn(chalk.yellow(`Skipping label that doesn't exist in ${resolveRepository()}: ${label} (set "createMissingLabels" to create it)`));
+      }
+    }
+    return existing;
+  };
+
+  const verifyToken = async (token: string): Promise<string> => {
+    const user = await request<{ username: string }>('GET', '/user', undefined, token);
+    return user.username;
+  };
+
+  return {
+    name: 'gitlab',
+    displayName: 'GitLab',
+    changeRequestName: 'merge request',
+    host,
+
+    setup: async () => {
+      log(chalk.blue(`Setting up GitLab integration (${host})`));
+
+      const existing = options.token ? null : getGitlabCredential();
+      const useExisting = existing !== null && existing.source !== 'secret-store';
+      let token: string;
+
+      if (useExisting) {
+        log(chalk.green(`Using GitLab token from ${describeCredentialSource(existing)}`));
+        token = existing.token;
+      } else {
+        log(chalk.yellow('To create a GitLab personal access token:'));
+        log(`1. Go to https://${host}/-/user_settings/personal_access_tokens`);
+        log('2. Click "Add new token"');
+        log('3. Select the "api" scope');
+        log('4. Create and copy your token\n');
+
+        const answers = await prompt([
+          {
+            type: 'password',
+            name: 'token',
+            message: 'Enter your GitLab personal access token:',
+            validate: (input) => !!input || 'Token is required'
+          }
+        ], { hint: 'Set GITLAB_TOKEN.' });
+        token = answers.token;
+      }
+
+      try {
+        const username = await verifyToken(token);
+        log(chalk.green(`✅ Connected to GitLab as ${username}`));
+
+        // Save the token, unless it comes from somewhere we already read it from
+        if (!useExisting) {
+          setSecret('gitlabToken', token);
+        }
+        setSetting('gitlabUsername', username);
+      } catch (error) {
+        throw wrapError('Failed to connect to GitLab', error);
+      }
+    },
+
+    authenticate: () => verifyToken(getToken()),
+
+    resolveRepository,
+
+    pushBranch: (branch) => pushBranch(branch),
+
+    createChangeRequest: async (params) => {
+      try {
+        // GitLab creates any label it doesn't know, so filter first unless that's wanted
+        const labels = params.labels?.length && !params.createMissingLabels
+          ? await findExistingLabels(params.labels)
+          : params.labels || [];
+        if (params.teamReviewers?.length) {
+          console.warn(chalk.yellow(`GitLab has no team reviewers; skipping ${params.teamReviewers.join(', ')}`));
+        }
+
+        const mergeRequest = await request<GitlabMergeRequest>('POST', `${projectEndpoint()}/merge_requests`, {
+          source_branch: params.sourceBranch,
+          target_branch: params.targetBranch,
+          title: applyDraftPrefix(params.title, params.draft),
+          description: params.body,
+          labels: labels.join(','),
+          assignee_ids: await findUserIds(params.assignees || []),
+          reviewer_ids: await findUserIds(params.reviewers || [])
+        });
+        return toChangeRequest(mergeRequest);
+      } catch (error) {
+        throw wrapError('Failed to create merge request', error);
+      }
+    },
+
+    updateChangeRequest: async (iid: number, changes: UpdateChangeRequestParams) => {
+      const update: Record<string, unknown> = {};
+
+      if (changes.title !== undefined || changes.draft !== undefined) {
+        let { title, draft } = changes;
+        if (title === undefined || draft === undefined) {
+          const current = toChangeRequest(await getMergeRequest(iid));
+          title = title ?? current.title;
+          draft = draft ?? current.state === 'draft';
+        }
+        update.title = applyDraftPrefix(title, draft);
+      }
+      if (changes.body !== undefined) {
+        update.description = changes.body;
+      }
+      if (changes.targetBranch !== undefined) {
+        update.target_branch = changes.targetBranch;
+      }
+
+      const mergeRequest = await request<GitlabMergeRequest>('PUT', `${projectEndpoint()}/merge_requests/${iid}`, update);
+      return toChangeRequest(mergeRequest);
+    },
+
+    findChangeRequest: async (sourceBranch) => {
+      const query = new URLSearchParams({
+        source_branch: sourceBranch,
+        order_by: 'updated_at',
+        sort: 'desc',
+        per_page: '1'
+      });
+      const mergeRequests = await request<GitlabMergeRequest[]>('GET', `${projectEndpoint()}/merge_requests?${query}`);
+      return mergeRequests.length > 0 ? toChangeRequest(mergeRequests[0]) : null;
+    },
+
+    getChangeRequest: async (iid) => toChangeRequest(await getMergeRequest(iid)),
+
+    findChangeRequestsForTasks: async (taskIds, branchNames = new Map()) => {
+      const found = new Map<string, ChangeRequest[]>(taskIds.map(taskId => [taskId, []]));
+
+      const addMatches = (mergeRequests: GitlabMergeRequest[]) => {
+        for (const mergeRequest of mergeRequests) {
+          for (const [taskId, matches] of found) {
+            const mentioned = containsTaskId(mergeRequest.source_branch, taskId) || containsTaskId(mergeRequest.title, taskId);
+            if (mentioned && !matches.some(match => match.number === mergeRequest.iid)) {
+              matches.push(toChangeRequest(mergeRequest));
+            }
+          }
+        }
+      };
+
+      // Recent merge requests are matched on branch and title; older ones by Linear's branch name, then by title
+      const recentQuery = new URLSearchParams({ state: 'all', order_by: 'updated_at', sort: 'desc', per_page: '100' });
+      addMatches(await request<GitlabMergeRequest[]>('GET', `${projectEndpoint()}/merge_requests?${recentQuery}`));
+
+      // Merge requests from the branch Linear suggested belong to the task, whatever their title
+      await Promise.all(taskIds.filter(id => found.get(id)?.length === 0 && branchNames.has(id)).map(async taskId => {
+        const branchQuery = new URLSearchParams({ state: 'all', source_branch: branchNames.get(taskId) as string, per_page: '10' });
+        const mergeRequests = await request<GitlabMergeRequest[]>('GET', `${projectEndpoint()}/merge_requests?${branchQuery}`);
+        found.set(taskId, mergeRequests.map(toChangeRequest));
+      }));
+
+      for (const taskId of taskIds.filter(id => found.get(id)?.length === 0)) {
+        const searchQuery = new URLSearchParams({ state: 'all', search: taskId, in: 'title', per_page: '20' });
+        addMatches(await request<GitlabMergeRequest[]>('GET', `${projectEndpoint()}/merge_requests?${searchQuery}`));
+      }
+
+      return found;
+    },
+
+    parseChangeRequestUrl: (url) => {
+      const escapedHost = host.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      const match = url.match(new RegExp(`^https?://${escapedHost}/(.+?)/-/merge_requests/(\\d+)`, 'i'));
+      if (!match || match[1].toLowerCase() !== resolveRepository().toLowerCase()) {
+        return null;
+      }
+      return parseInt(match[2], 10);
+    },
+
+    getChangeRequestDetails: async (iid) => {
+      const mergeRequest = await getMergeRequest(iid);
+      const approvals = await request<{ approved_by?: Array<{ user: { username: string } }> }>(
+        'GET',
+        `${projectEndpoint()}/merge_requests/${iid}/approvals`
+      );
+
+      const jobs = mergeRequest.head_pipeline
+        ? await request<GitlabJob[]>('GET', `${projectEndpoint()}/pipelines/${mergeRequest.head_pipeline.id}/jobs?per_page=100`)
+        : [];
+      const checks: CheckResult[] = jobs.map(job => ({ name: job.name, status: toCheckStatus(job), url: job.web_url }));
+
+      const approvers = (approvals.approved_by || []).map(approval => approval.user.username);
+      const reviews: ReviewDecision[] = approvers.map(reviewer => ({ reviewer, state: 'approved' as const }));
+      for (const reviewer of mergeRequest.reviewers || []) {
+        if (!approvers.includes(reviewer.username)) {
+          // GitLab reports requested changes for the merge request as a whole, not per reviewer
+          const state = mergeRequest.detailed_merge_status === 'requested_changes' ? 'changes_requested' : 'pending';
+          reviews.push({ reviewer: reviewer.username, state });
+        }
+      }
+
+      const mergeStatus = mergeRequest.detailed_merge_status;
+      const mergeable = !mergeStatus || PENDING_MERGE_STATUSES.includes(mergeStatus) ? null : mergeStatus === 'mergeable';
+
+      return { ...toChangeRequest(mergeRequest), mergeable, checks, reviews };
+    },
+
+    getChangeRequestUrlPrefix: () => `https://${host}/${resolveRepository()}/-/merge_requests/`,
+
+    getReviewStatus: async (iid) => {
+      const mergeRequest = await getMergeRequest(iid);
+      if (mergeRequest.detailed_merge_status === 'requested_changes') {
+        return 'changes_requested';
+      }
+
+      const approvals = await request<{ approved_by?: unknown[] }>('GET', `${projectEndpoint()}/merge_requests/${iid}/approvals`);
+      return approvals.approved_by && approvals.approved_by.length > 0 ? 'approved' : 'review_required';
+    }
+  };
+}
@@ -0,0 +1,45 @@
+import { resolveConfig } from '../config.js';
+import { detectRemoteRepository } from '../remote.js';
+import type { CodeHostName } from '../types.js';
+import { createGithubProvider } from './github.js';
+import { createGitlabProvider } from './gitlab.js';
+import type { CodeHostProvider } from './types.js';
+
+export { createGithubProvider } from './github.js';
+export { createGitlabProvider, getGitlabHost, getGitlabApiUrl, GITLAB_DOT_COM } from './gitlab.js';
+export type { GitlabProviderOptions } from './gitlab.js';
+export type {
+  CodeHostProvider,
+  ChangeRequest,
+  ChangeRequestState,
+  ReviewStatus,
+  ChangeRequestDetails,
+  CheckResult,
+  ReviewDecision,
+  CreateChangeRequestParams,
+  UpdateChangeRequestParams
+} from './types.js';
+
+/**
+ * Work out which code host to use: the configured `codeHost`, else the origin remote's host
+ * (the configured `gitlabHost`, or any host with "gitlab" in its name, means GitLab)
+ */
+export function detectCodeHost(): CodeHostName {
+  const settings = resolveConfig();
+  if (settings.codeHost) {
+    return settings.codeHost;
+  }
+
+  const remoteHost = detectRemoteRepository()?.host.toLowerCase();
+  if (remoteHost && (remoteHost === settings.gitlabHost?.toLowerCase() || remoteHost.includes('gitlab'))) {
+    return 'gitlab';
+  }
+  return 'github';
+}
+
+/**
+ * Get the provider for the code host in use
+ */
+export function getCodeHostProvider(name: CodeHostName = detectCodeHost()): CodeHostProvider {
+  return name === 'gitlab' ? createGitlabProvider() : createGithubProvider();
+}
@@ -0,0 +1,115 @@
+import type { CodeHostName } from '../types.js';
+
+/**
+ * Where a pull/merge request stands
+ */
+export type ChangeRequestState = 'open' | 'draft' | 'merged' | 'closed';
+
+/**
+ * Where reviews of an open change request stand
+ */
+export type ReviewStatus = 'approved' | 'changes_requested' | 'review_required';
+
+/**
+ * A pull request (GitHub) or merge request (GitLab)
+ */
+export interface ChangeRequest {
+  number: number;
+  url: string;
+  title: string;
+  state: ChangeRequestState;
+  sourceBranch: string;
+  targetBranch: string;
+  body: string;
+  // Only filled in where reviews were looked up
+  reviewStatus?: ReviewStatus;
+}
+
+/**
+ * Result of one CI check or job on a change request's latest commit
+ */
+export interface CheckResult {
+  name: string;
+  status: 'success' | 'failure' | 'pending' | 'neutral';
+  url?: string;
+}
+
+/**
+ * A reviewer's latest decision on a change request
+ */
+export interface ReviewDecision {
+  reviewer: string;
+  state: 'approved' | 'changes_requested' | 'commented' | 'pending';
+}
+
+/**
+ * A change request with what it takes to merge it: mergeability, checks and reviews
+ */
+export interface ChangeRequestDetails extends ChangeRequest {
+  // null while the code host is still working it out
+  mergeable: boolean | null;
+  checks: CheckResult[];
+  reviews: ReviewDecision[];
+}
+
+/**
+ * What to open a change request with
+ */
+export interface CreateChangeRequestParams {
+  title: string;
+  body: string;
+  sourceBranch: string;
+  targetBranch: string;
+  draft: boolean;
+  labels?: string[];
+  reviewers?: string[];
+  // Team slugs; only GitHub has team reviewers
+  teamReviewers?: string[];
+  assignees?: string[];
+  // Create labels the repository doesn't have, instead of skipping them
+  createMissingLabels?: boolean;
+}
+
+/**
+ * Fields to change on an existing change request; anything left out stays as it is
+ */
+export interface UpdateChangeRequestParams {
+  title?: string;
+  body?: string;
+  targetBranch?: string;
+  draft?: boolean;
+}
+
+/**
+ * Everything the CLI needs from a code host
+ */
+export interface CodeHostProvider {
+  readonly name: CodeHostName;
+  // Shown to the user, e.g. "GitHub"
+  readonly displayName: string;
+  // What the host calls a change request, e.g. "pull request"
+  readonly changeRequestName: string;
+  readonly host: string;
+
+  // Interactively store and verify a token
+  setup(): Promise<void>;
+  // Verify the available credential and return the username it belongs to
+  authenticate(): Promise<string>;
+  // The repository (owner/repo or group/subgroup/project) to open change requests against
+  resolveRepository(): string;
+  pushBranch(branch: string): void;
+  createChangeRequest(params: CreateChangeRequestParams): Promise<ChangeRequest>;
+  updateChangeRequest(number: number, changes: UpdateChangeRequestParams): Promise<ChangeRequest>;
+  // The most recent change request opened from a branch, if any
+  findChangeRequest(sourceBranch: string): Promise<ChangeRequest | null>;
+  getChangeRequest(number: number): Promise<ChangeRequest>;
+  // Change requests whose source branch or title contains each task ID, keyed by task ID.
+  // `branchNames` (Linear's suggested branch for each task) are looked up directly, to find older ones.
+  findChangeRequestsForTasks(taskIds: string[], branchNames?: Map<string, string>): Promise<Map<string, ChangeRequest[]>>;
+  // The number of a change request URL in this repository, or null for any other URL
+  parseChangeRequestUrl(url: string): number | null;
+  // What every change request URL in this repository starts with
+  getChangeRequestUrlPrefix(): string;
+  getReviewStatus(number: number): Promise<ReviewStatus>;
+  getChangeRequestDetails(number: number): Promise<ChangeRequestDetails>;
+}
@@ -0,0 +1,90 @@
+import { isGitRepository, gitOutput } from './git.js';
+
+/**
+ * A repository location parsed from a git remote URL
+ */
+export interface RemoteInfo {
+  host: string;
+  owner: string;
+  repo: string;
+}
+
+/**
+ * Split a remote path like `owner/repo.git` into owner and repo.
+ * Nested owners (e.g. GitLab subgroups) keep everything before the last segment.
+ */
+function splitRepoPath(repoPath: string): { owner: string; repo: string } | null {
+  const segments = repoPath
+    .replace(/^\/+|\/+$/g, '')
+    .replace(/\.git$/i, '')
+    .split('/')
+    .filter(Boolean);
+
+  if (segments.length < 2) {
+    return null;
+  }
+
+  const repo = segments.pop() as string;
+  return { owner: segments.join('/'), repo };
+}
+
+/**
+ * Parse a git remote URL into host, owner and repository name.
+ * Supports:
+ * - https://github.com/owner/repo.git (with optional credentials and port)
+ * - ssh://git@github.com:22/owner/repo.git
+ * - git@github.com:owner/repo.git (scp-style, including SSH host aliases like `github-work:owner/repo`)
+ */
+export function parseRemoteUrl(remoteUrl: string): RemoteInfo | null {
+  const trimmed = remoteUrl.trim();
+
+  // URL-style remotes: https://, http://, ssh://, git://, git+ssh://
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed)) {
+    let parsed: URL;
+    try {
+      parsed = new URL(trimmed);
+    } catch {
+      return null;
+    }
+
+    const repoPath = splitRepoPath(decodeURIComponent(parsed.pathname));
+    if (!parsed.hostname || !repoPath) {
+      return null;
+    }
+
+    return { host: parsed.hostname.toLowerCase(), ...repoPath };
+  }
+
+  // scp-style remotes: [user@]host:owner/repo
+  const scpMatch = trimmed.match(/^(?:[^@/]+@)?([^:/]+):(.+)$/);
+  if (scpMatch) {
+    const [, host, pathPart] = scpMatch;
+    const repoPath = splitRepoPath(pathPart);
+    return repoPath ? { host: host.toLowerCase(), ...repoPath } : null;
+  }
+
+  return null;
+}
+
+/**
+ * Get the URL of a remote in the current checkout
+ */
+export function getRemoteUrl(remote = 'origin'): string | null {
+  if (!isGitRepository()) {
+    return null;
+  }
+
+  try {
+    return gitOutput(['remote', 'get-url', remote]) || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Detect the repository of the current checkout from its remote
+ */
+export function detectRemoteRepository(remote = 'origin'): RemoteInfo | null {
+  const remoteUrl = getRemoteUrl(remote);
+  return remoteUrl ? parseRemoteUrl(remoteUrl) : null;
+}
@@ -0,0 +1,179 @@
+import Conf from 'conf';
+import { spawnSync } from 'child_process';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { config, getActiveProfile } from './config.js';
+import { LinearPrError } from './errors.js';
+
+/**
+ * Credentials kept in the encrypted secret store instead of the plain config file
+ */
+export interface Secrets {
+  githubToken?: string;
+  gitlabToken?: string;
+  linearAccessToken?: string;
+  linearRefreshToken?: string;
+  linearOAuthClientSecret?: string;
+  // Each profile's credentials, keyed by profile name
+  profiles?: Record<string, Omit<Secrets, 'profiles'>>;
+}
+
+export type SecretKey = Exclude<keyof Secrets, 'profiles'>;
+
+// Every key that belongs in the secret store
+export const SECRET_KEYS: SecretKey[] = ['githubToken', 'gitlabToken', 'linearAccessToken', 'linearRefreshToken', 'linearOAuthClientSecret'];
+
+// A secret's path in the store: top-level for the default profile, under `profiles.<name>` otherwise
+type SecretPath = SecretKey | `profiles.${string}.${SecretKey}` | `profiles.${string}`;
+
+// Service name the store's key is saved under in the OS keychain
+const KEYCHAIN_SERVICE = 'linear-pr';
+
+// How to supply the key when the OS keychain can't be used
+const SECRET_KEY_HINT = 'Set LINEAR_PR_SECRET_KEY to a long random string, or install secret-tool (libsecret) so the key can be kept in the OS keychain.';
+
+let store: Conf<Secrets> | null = null;
+
+/**
+ * Read a password from the OS keychain (macOS Keychain or the Secret Service through secret-tool).
+ * Returns null when there is none or no keychain can be used.
+ */
+function readKeychainPassword(account: string): string | null {
+  const args = process.platform === 'darwin'
+    ? ['security', ['find-generic-password', '-s', KEYCHAIN_SERVICE, '-a', account, '-w']]
+    : ['secret-tool', ['lookup', 'service', KEYCHAIN_SERVICE, 'account', account]];
+  const result = spawnSync(args[0] as string, args[1] as string[], { encoding: 'utf8', stdio: ['ignore', 'pipe', 'ignore'] });
+  return !result.error && result.status === 0 && result.stdout.trim() ? result.stdout.trim() : null;
+}
+
+/**
+ * Save a password in the OS keychain, passing it on stdin so it never shows up in the process list.
+ * Returns false when no keychain can be used.
+ */
+function writeKeychainPassword(account: string, password: string): boolean {
+  const result = process.platform === 'darwin'
+    ? spawnSync('security', ['-i'], { input: `add-generic-password -U -s ${KEYCHAIN_SERVICE} -a "${account}" -w ${password}\n`, stdio: ['pipe', 'ignore', 'ignore'] })
+    : spawnSync('secret-tool', ['store', '--label=linear-pr secret store key', 'service', KEYCHAIN_SERVICE, 'account', account], { input: password, stdio: ['pipe', 'ignore', 'ignore'] });
+  return !result.error && result.status === 0;
+}
+
+/**
+ * Get the key that encrypts the secret store: `LINEAR_PR_SECRET_KEY`, else a random key kept in the
+ * OS keychain, created on first use. The key is never stored next to the store.
+ * Returns null when there is neither.
+ */
+function loadEncryptionKey(): string | null {
+  if (process.env.LINEAR_PR_SECRET_KEY) {
+    return process.env.LINEAR_PR_SECRET_KEY;
+  }
+
+  const configDir = path.dirname(config.path);
+  const account = `secret-store:${configDir}`;
+  const storedKey = readKeychainPassword(account);
+  if (storedKey) {
+    return storedKey;
+  }
+
+  // Older versions kept the key in a file next to the store; move it into the keychain
+  const legacyKeyFile = path.join(configDir, 'secret.key');
+  if (fs.existsSync(legacyKeyFile)) {
+    const legacyKey = fs.readFileSync(legacyKeyFile, 'utf8').trim();
+    if (!writeKeychainPassword(account, legacyKey)) {
+      throw new LinearPrError(`The secret store's key is still in ${legacyKeyFile}, next to the store, and there is no OS keychain to move it to`, {
+        hint: `Set LINEAR_PR_SECRET_KEY to the contents of ${legacyKeyFile}, then delete the file.`
+      });
+    }
+    fs.unlinkSync(legacyKeyFile);
+    return legacyKey;
+  }
+
+  const key = crypto.randomBytes(32).toString('hex');
+  return writeKeychainPassword(account, key) ? key : null;
+}
+
+/**
+ * Move any tokens still stored in plaintext in the config file into the secret store
+ */
+function migratePlaintextSecrets(secretStore: Conf<Secrets>): void {
+  for (const key of SECRET_KEYS) {
+    const value = config.get(key);
+    if (typeof value === 'string' && value) {
+      if (!secretStore.has(key)) {
+        secretStore.set(key, value);
+      }
+      config.delete(key);
+    }
+  }
+}
+
+/**
+ * Get the encrypted secret store, stored next to the config file,
+ * or null when there is no key to encrypt it with
+ */
+function openSecretStore(): Conf<Secrets> | null {
+  if (!store) {
+    const encryptionKey = loadEncryptionKey();
+    if (!encryptionKey) {
+      return null;
+    }
+    store = new Conf<Secrets>({
+      projectName: 'linear-pr',
+      configName: 'secrets',
+      encryptionKey,
+      configFileMode: 0o600
+    });
+    migratePlaintextSecrets(store);
+  }
+  return store;
+}
+
+/**
+ * Get the encrypted secret store, failing when there is no key to encrypt it with
+ */
+export function getSecretStore(): Conf<Secrets> {
+  const secretStore = openSecretStore();
+  if (!secretStore) {
+    throw new LinearPrError('There is no key to encrypt the secret store with', { hint: SECRET_KEY_HINT });
+  }
+  return secretStore;
+}
+
+/**
+ * Path of a secret for the active profile, or the global path when no profile is active
+ */
+function secretPath(key: SecretKey): SecretPath {
+  const profile = getActiveProfile();
+  return profile ? `profiles.${profile.name}.${key}` : key;
+}
+
+/**
+ * Read a secret for the active profile from the encrypted store.
+ * Without a key to open the store there are no stored secrets.
+ */
+export function getSecret(key: SecretKey): string | undefined {
+  const value = openSecretStore()?.get<string, unknown>(secretPath(key));
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Write a secret for the active profile to the encrypted store
+ */
+export function setSecret(key: SecretKey, value: string): void {
+  getSecretStore().set(secretPath(key), value);
+}
+
+/**
+ * Remove a secret for the active profile from the encrypted store
+ */
+export function deleteSecret(key: SecretKey): void {
+  openSecretStore()?.delete(secretPath(key));
+}
+
+/**
+ * Remove every secret belonging to a profile
+ */
+export function deleteProfileSecrets(name: string): void {
+  const profilePath: SecretPath = `profiles.${name}`;
+  openSecretStore()?.delete(profilePath);
+}
@@ -0,0 +1,236 @@
+import { listBranches, runGit } from './git.js';
+import { getCodeHostProvider } from './providers/index.js';
+import type { ChangeRequest, CodeHostProvider } from './providers/types.js';
+import { containsTaskId } from './utils.js';
+
+// Git config variable, under `branch.<name>`, holding the branch a stacked branch is based on
+const STACK_PARENT_KEY = 'linearPrParent';
+
+// Markers around the stack links in a change request's description, so they can be replaced
+const STACK_SECTION_START = '<!-- linear-pr:stack -->';
+const STACK_SECTION_END = '<!-- /linear-pr:stack -->';
+
+/**
+ * A branch a new task's branch can be stacked on: the branch of its parent issue or of an issue blocking it
+ */
+export interface StackCandidate {
+  taskId: string;
+  relation: 'parent' | 'blocker';
+  branch: string;
+  // The open change request from the branch, if there is one
+  changeRequest: ChangeRequest | null;
+}
+
+/**
+ * One stacked change request moved (or, in a dry run, to be moved) to a new base by a restack
+ */
+export interface RestackAction {
+  branch: string;
+  changeRequest: ChangeRequest;
+  from: string;
+  to: string;
+  error?: string;
+}
+
+/**
+ * The git arguments that record the branch a stacked branch is based on
+ */
+export function getStackParentArgs(branch: string, parent: string): string[] {
+  return ['config', `branch.${branch}.${STACK_PARENT_KEY}`, parent];
+}
+
+/**
+ * Record the branch a stacked branch is based on
+ */
+export function setStackParent(branch: string, parent: string): void {
+  runGit(getStackParentArgs(branch, parent));
+}
+
+/**
+ * Forget the branch a branch was stacked on, if any
+ */
+export function clearStackParent(branch: string): void {
+  runGit(['config', '--unset', `branch.${branch}.${STACK_PARENT_KEY}`], { check: false });
+}
+
+/**
+ * Get every recorded stacked branch with the branch it is based on
+ */
+export function getStackedBranches(): Map<string, string> {
+  const stack = new Map<string, string>();
+  const suffix = `.${STACK_PARENT_KEY.toLowerCase()}`;
+  // Exits with an error when nothing matches
+  const { stdout } = runGit(['config', '--get-regexp', `^branch\\..*\\${suffix}$`], { check: false });
+
+  for (const line of stdout.split('\n').filter(Boolean)) {
+    const separator = line.indexOf(' ');
+    const key = line.slice(0, separator);
+    stack.set(key.slice('branch.'.length, -suffix.length), line.slice(separator + 1));
+  }
+  return stack;
+}
+
+/**
+ * Find the branches a task can be stacked on: its parent's and its blockers', preferring
+ * branches with an open change request. Issues without a branch are left out.
+ */
+export async function findStackCandidates(
+  task: { parentId: string | null; blockedBy: string[] },
+  provider: CodeHostProvider = getCodeHostProvider()
+): Promise<StackCandidate[]> {
+  const related = [
+    ...(task.parentId ? [{ taskId: task.parentId, relation: 'parent' as const }] : []),
+    ...task.blockedBy.map(taskId => ({ taskId, relation: 'blocker' as const }))
+  ];
+  if (related.length === 0) {
+    return [];
+  }
+
+  const changeRequests = await provider.findChangeRequestsForTasks(related.map(({ taskId }) => taskId));
+  const branches = listBranches();
+  const candidates: StackCandidate[] = [];
+  for (const { taskId, relation } of related) {
+    const open = (changeRequests.get(taskId) || []).find(changeRequest => changeRequest.state === 'open' || changeRequest.state === 'draft');
+    const branch = open?.sourceBranch || branches.find(name => containsTaskId(name, taskId));
+    if (branch) {
+      candidates.push({ taskId, relation, branch, changeRequest: open || null });
+    }
+  }
+  return candidates;
+}
+
+/**
+ * Render the links from a stacked change request to the one it is based on and the ones based on it
+ */
+export function renderStackSection(base: ChangeRequest | null, children: ChangeRequest[]): string {
+  if (!base && children.length === 0) {
+    return '';
+  }
+
+  const lines = [STACK_SECTION_START, '**Stack**', ''];
+  if (base) {
+    lines.push(`- Based on [${base.title}](${base.url})`);
+  }
+  children.forEach(child => lines.push(`- Followed by [${child.title}](${child.url})`));
+  lines.push(STACK_SECTION_END);
+  return lines.join('\n');
+}
+
+/**
+ * Put the stack section into a description, replacing the previous one; an empty section removes it
+ */
+export function setStackSection(body: string, section: string): string {
+  const start = body.indexOf(STACK_SECTION_START);
+  const end = body.indexOf(STACK_SECTION_END);
+  const rest = start !== -1 && end > start
+    ? (body.slice(0, start) + body.slice(end + STACK_SECTION_END.length)).trimEnd()
+    : body.trimEnd();
+  return [rest, section].filter(Boolean).join('\n\n') + '\n';
+}
+
+/**
+ * Update the stack links in the description of a branch's open change request, from the recorded stack
+ */
+export async function updateStackLinks(branch: string, provider: CodeHostProvider = getCodeHostProvider()): Promise<void> {
+  const changeRequest = await provider.findChangeRequest(branch);
+  if (!changeRequest || changeRequest.state === 'merged' || changeRequest.state === 'closed') {
+    return;
+  }
+
+  const stack = getStackedBranches();
+  const parent = stack.get(branch);
+  const base = parent ? await provider.findChangeRequest(parent) : null;
+  const children = await Promise.all(
+    [...stack].filter(([, childParent]) => childParent === branch).map(([child]) => provider.findChangeRequest(child))
+  );
+
+  const body = setStackSection(changeRequest.body, renderStackSection(base, children.flatMap(child => child ? [child] : [])));
+  if (body.trim() !== changeRequest.body.trim()) {
+    await provider.updateChangeRequest(changeRequest.number, { body });
+  }
+}
+
+/**
+ * Record a restacked branch's new base; it is still stacked while the base has an open change request of its own
+ */
+function recordStackParent(branch: string, base: string, baseChangeRequest: ChangeRequest | null): void {
+  if (baseChangeRequest && baseChangeRequest.state !== 'closed') {
+    setStackParent(branch, base);
+  } else {
+    clearStackParent(branch);
+  }
+}
+
+/**
+ * Move each stacked change request whose base was merged onto the branch that base merged into,
+ * and record the new base. Stacked branches whose own change request is done are forgotten.
+ */
+export async function restack(options: { dryRun?: boolean } = {}, provider: CodeHostProvider = getCodeHostProvider()): Promise<RestackAction[]> {
+  const stack = getStackedBranches();
+  const actions: RestackAction[] = [];
+
+  // Each branch is looked up once, however many branches are stacked on it
+  const lookups = new Map<string, Promise<ChangeRequest | null>>();
+  const find = (branch: string) => {
+    if (!lookups.has(branch)) {
+      lookups.set(branch, provider.findChangeRequest(branch));
+    }
+    return lookups.get(branch) as Promise<ChangeRequest | null>;
+  };
+
+  for (const [branch, parent] of stack) {
+    const changeRequest = await find(branch);
+    if (!changeRequest || changeRequest.state === 'merged' || changeRequest.state === 'closed') {
+      if (!options.dryRun && changeRequest) {
+        clearStackParent(branch);
+      }
+      continue;
+    }
+
+    // Walk up past merged bases to the first that is still open, or the branch the last one merged into
+    let base = parent;
+    let baseChangeRequest = await find(base);
+    for (let depth = 0; baseChangeRequest?.state === 'merged' && depth <= stack.size; depth++) {
+      base = baseChangeRequest.targetBranch;
+      baseChangeRequest = await find(base);
+    }
+    // Already targeting the base; if the code host retargeted it, only the record is out of date
+    if (changeRequest.targetBranch === base) {
+      if (base !== parent && !options.dryRun) {
+        recordStackParent(branch, base, baseChangeRequest);
+      }
+      continue;
+    }
+
+    const action: RestackAction = { branch, changeRequest, from: changeRequest.targetBranch, to: base };
+    actions.push(action);
+    if (options.dryRun) {
+      continue;
+    }
+
+    try {
+      action.changeRequest = await provider.updateChangeRequest(changeRequest.number, { targetBranch: base });
+      recordStackParent(branch, base, baseChangeRequest);
+    } catch (error) {
+      action.error = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  // Both ends of each moved change request now link to different change requests
+  if (!options.dryRun) {
+    const moved = actions.filter(({ error }) => !error);
+    for (const branch of new Set(moved.flatMap(action => [action.branch, action.to]))) {
+      await updateStackLinks(branch, provider);
+    }
+  }
+  return actions;
+}
+
+/**
+ * The git command that moves a restacked branch's own commits onto its new base,
+ * leaving out the commits of the merged base it was branched from
+ */
+export function getRebaseArgs(action: RestackAction): string[] {
+  return ['rebase', '--onto', `origin/${action.to}`, action.from, action.branch];
+}
+
@@ -0,0 +1,54 @@
+import { resolveConfig } from './config.js';
+import { getTaskStatus } from './linear.js';
+import type { TaskStatus } from './linear.js';
+import { getCodeHostProvider } from './providers/index.js';
+import type { ChangeRequestDetails } from './providers/types.js';
+import { extractTaskIdFromBranchName } from './utils.js';
+import { getAheadBehind, getCurrentBranch, isGitRepository, branchExistsLocally, NotARepositoryError } from './git.js';
+import { LinearPrError } from './errors.js';
+
+/**
+ * Everything `linear-pr status` reports about a branch
+ */
+export interface BranchStatus {
+  branch: string;
+  task: TaskStatus;
+  pullRequest: ChangeRequestDetails | null;
+  baseBranch: string;
+  // null when the base branch hasn't been fetched
+  commits: { ahead: number; behind: number } | null;
+}
+
+/**
+ * Gather the Linear task, its pull/merge request and the branch's position relative to its base
+ */
+export async function getBranchStatus(branch?: string): Promise<BranchStatus> {
+  if (!isGitRepository()) {
+    throw new NotARepositoryError('Not in a git repository', []);
+  }
+
+  const branchName = branch || getCurrentBranch();
+  const taskId = extractTaskIdFromBranchName(branchName);
+  if (!taskId) {
+    throw new LinearPrError(`Could not find a Linear task ID in branch "${branchName}"`, {
+      hint: 'Pass a branch named after its task, e.g. `linear-pr status feature/eng-123-title`.'
+    });
+  }
+
+  const provider = getCodeHostProvider();
+  const [task, changeRequest] = await Promise.all([
+    getTaskStatus(taskId),
+    provider.findChangeRequest(branchName)
+  ]);
+  const pullRequest = changeRequest ? await provider.getChangeRequestDetails(changeRequest.number) : null;
+
+  const baseBranch = pullRequest?.targetBranch || resolveConfig().defaultBranch || 'development';
+  return {
+    branch: branchName,
+    task,
+    pullRequest,
+    baseBranch,
+    // The branch asked about, which may only exist on the remote
+    commits: getAheadBehind(baseBranch, branchExistsLocally(branchName) ? branchName : `origin/${branchName}`)
+  };
+}
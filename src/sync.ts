@@ -0,0 +1,118 @@
+import { getAssignedTasks, getTasksLinkedTo, commentOnTaskOnce } from './linear.js';
+import { discoverTaskChangeRequests } from './discovery.js';
+import { getCodeHostProvider } from './providers/index.js';
+import type { ChangeRequest, CodeHostProvider } from './providers/types.js';
+import { transitionTask } from './transitions.js';
+import type { LifecycleEvent } from './types.js';
+
+/**
+ * Options for reconciling change request state into Linear
+ */
+export interface SyncOptions {
+  // Every open task linked to a change request in the repository, not just the user's assigned tasks
+  all?: boolean;
+  // Work out what would change without changing anything
+  dryRun?: boolean;
+}
+
+/**
+ * One change made (or, in a dry run, planned) by a sync, or one that failed
+ */
+export interface SyncAction {
+  taskId: string;
+  changeRequest: ChangeRequest;
+  event: LifecycleEvent;
+  kind: 'transition' | 'comment';
+  description: string;
+  error?: string;
+}
+
+/**
+ * The lifecycle event a change request's current state corresponds to, if any
+ */
+function getSyncEvent(changeRequest: ChangeRequest): LifecycleEvent | null {
+  if (changeRequest.state === 'merged') {
+    return 'merged';
+  }
+  if (changeRequest.state === 'closed') {
+    return 'closed';
+  }
+  return changeRequest.reviewStatus === 'changes_requested' ? 'changesRequested' : null;
+}
+
+/**
+ * Find the change request for each task to sync, keyed by task ID
+ */
+async function collectChangeRequests(provider: CodeHostProvider, options: SyncOptions): Promise<Map<string, ChangeRequest>> {
+  if (options.all) {
+    const tasks = await getTasksLinkedTo(provider.getChangeRequestUrlPrefix());
+    return discoverTaskChangeRequests(tasks, provider);
+  }
+
+  const changeRequests = new Map<string, ChangeRequest>();
+  for (const task of await getAssignedTasks()) {
+    if (task.pullRequest) {
+      changeRequests.set(task.taskId, task.pullRequest);
+    }
+  }
+  return changeRequests;
+}
+
+/**
+ * Find the tasks whose closed change request was replaced by another that is still open or a draft,
+ * so closing the old one doesn't move the task back
+ */
+async function findReplacedTasks(provider: CodeHostProvider, changeRequests: Map<string, ChangeRequest>): Promise<Set<string>> {
+  const closed = [...changeRequests].filter(([, changeRequest]) => changeRequest.state === 'closed').map(([taskId]) => taskId);
+  if (closed.length === 0) {
+    return new Set();
+  }
+
+  const found = await provider.findChangeRequestsForTasks(closed);
+  return new Set(closed.filter(taskId =>
+    (found.get(taskId) || []).some(changeRequest => changeRequest.state === 'open' || changeRequest.state === 'draft')
+  ));
+}
+
+/**
+ * Bring Linear up to date with the code host: move tasks whose change request was merged or closed
+ * to the configured workflow states, and comment on tasks where changes were requested.
+ * Only actions that change something are returned, so running it repeatedly is safe.
+ */
+export async function syncTasks(options: SyncOptions = {}): Promise<SyncAction[]> {
+  const provider = getCodeHostProvider();
+  const changeRequests = await collectChangeRequests(provider, options);
+  const replaced = await findReplacedTasks(provider, changeRequests);
+  const actions: SyncAction[] = [];
+
+  for (const [taskId, changeRequest] of changeRequests) {
+    const event = getSyncEvent(changeRequest);
+    if (!event || (event === 'closed' && replaced.has(taskId))) {
+      continue;
+    }
+
+    try {
+      const transition = await transitionTask(taskId, event, { dryRun: options.dryRun });
+      if (transition) {
+        actions.push({ taskId, changeRequest, event, kind: 'transition', description: `"${transition.from}" → "${transition.to}"` });
+      }
+    } catch (error) {
+      actions.push({ taskId, changeRequest, event, kind: 'transition', description: 'workflow state', error: error instanceof Error ? error.message : String(error) });
+    }
+
+    if (event === 'changesRequested') {
+      const body = `Changes were requested on ${provider.changeRequestName} [#${changeRequest.number} ${changeRequest.title}](${changeRequest.url}).`;
+      try {
+        // Keyed on the change request number, so each one is only commented on once
+        const commented = await commentOnTaskOnce(taskId, body, { key: `Changes were requested on ${provider.changeRequestName} [#${changeRequest.number}`, dryRun: options.dryRun });
+        if (commented) {
+          actions.push({ taskId, changeRequest, event, kind: 'comment', description: 'comment about requested changes' });
+        }
+      } catch (error) {
+        actions.push({ taskId, changeRequest, event, kind: 'comment', description: 'comment about requested changes', error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+
+  return actions;
+}
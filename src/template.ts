@@ -0,0 +1,291 @@
+import fs from 'fs';
+import path from 'path';
+import { resolveConfig } from './config.js';
+import { isGitRepository, gitOutput } from './git.js';
+import { prompt } from './prompt.js';
+
+/**
+ * Values available to PR body templates
+ */
+export interface TemplateContext {
+  task: {
+    id: string;
+    url: string;
+    title: string;
+    description: string;
+    project: string | null;
+    labels: string[];
+  };
+  // Every task the PR covers, each with its link and description, as Markdown
+  taskList: string;
+  branch: string;
+}
+
+/**
+ * The parts of a task listed by `{{taskList}}`
+ */
+export interface TaskListEntry {
+  id: string;
+  url: string;
+  title: string;
+  description: string;
+}
+
+/**
+ * A PR body template and where it came from
+ */
+export interface PRTemplate {
+  source: 'config' | 'repository' | 'default';
+  path: string | null;
+  content: string;
+}
+
+// Built-in PR body, used when neither the config nor the repository provides a template
+export const DEFAULT_PR_TEMPLATE = `This PR addresses Linear task [{{task.id}}]({{task.url}})
+
+## Background
+
+<!-- Provide context or background to help reviewers understand why this change is necessary. Include links to related issues, user stories, or documentation if applicable. -->
+
+{{task.description}}
+
+## Reason for Changes
+
+<!-- Explain the problem(s) being solved or what motivated the changes. Include bug report references, feature requests, or business needs. -->
+
+
+
+## Changes Implemented
+
+<!-- Summarize the changes introduced in this pull request. Bullet points are encouraged for clarity. -->
+
+
+
+## Testing Results
+
+<!-- Describe how the changes were tested and what the results were. Include test cases, screenshots, or logs if beneficial. -->
+
+- [ ] Unit tests passed
+- [ ] Integration tests passed
+- [ ] Manually tested in local/uat environment
+
+
+## Deployment / Migration Details
+
+<!-- Specify any steps needed for deployment, such as database migrations, environment variable updates, or cron jobs. -->
+
+
+---
+
+### Additional Notes (Optional)
+
+<!-- Any extra information or considerations for reviewers or testers. -->
+
+<!-- Mention relevant team members or reviewers if needed. -->`;
+
+// Header added to repository templates that don't reference the Linear task themselves
+const TASK_LINK_HEADER = 'This PR addresses Linear task [{{task.id}}]({{task.url}})\n\n';
+
+// Locations GitHub checks for a single pull request template, relative to the repository root
+const REPOSITORY_TEMPLATE_FILES = [
+  '.github/pull_request_template.md',
+  'pull_request_template.md',
+  'docs/pull_request_template.md'
+];
+
+// Directories GitHub checks for multiple pull request templates
+const REPOSITORY_TEMPLATE_DIRS = [
+  '.github/PULL_REQUEST_TEMPLATE',
+  'PULL_REQUEST_TEMPLATE',
+  'docs/PULL_REQUEST_TEMPLATE'
+];
+
+/**
+ * Render the tasks a PR covers as Markdown: a linked heading per task, followed by its description
+ */
+export function formatTaskList(tasks: TaskListEntry[]): string {
+  return tasks
+    .map(task => [`### [${task.id}](${task.url}) ${task.title}`, task.description.trim()].filter(Boolean).join('\n\n'))
+    .join('\n\n');
+}
+
+/**
+ * Look up a dotted path like `task.id` in the template context
+ */
+function lookup(context: TemplateContext, keyPath: string): unknown {
+  return keyPath.split('.').reduce<unknown>((value, key) => {
+    if (value !== null && typeof value === 'object' && key in value) {
+      return (value as Record<string, unknown>)[key];
+    }
+    return undefined;
+  }, context);
+}
+
+/**
+ * Whether a context value counts as present for a conditional block
+ */
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  if (typeof value === 'string') {
+    return value.trim() !== '';
+  }
+  return Boolean(value);
+}
+
+/**
+ * Convert a context value to the text inserted for a placeholder
+ */
+function stringify(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return value.join(', ');
+  }
+  return String(value);
+}
+
+/**
+ * Render a PR body template.
+ * Supports `{{task.id}}`-style placeholders and conditional blocks:
+ * `{{#if task.description}}...{{else}}...{{/if}}` and `{{#unless task.labels}}...{{/unless}}`.
+ * Unknown placeholders are kept unchanged.
+ */
+export function renderTemplate(template: string, context: TemplateContext): string {
+  // Block tags on a line of their own shouldn't leave an empty line behind
+  const source = template.replace(/^[ \t]*(\{\{(?:#(?:if|unless) [\w.]+|else|\/(?:if|unless))\}\})[ \t]*\r?\n/gm, '$1');
+  const tagPattern = /\{\{\s*(#if|#unless|else|\/if|\/unless)?\s*([\w.]*)\s*\}\}/g;
+
+  // Stack of open blocks; output is only written while every enclosing block is active
+  const blocks: Array<{ kind: 'if' | 'unless'; active: boolean; parentActive: boolean }> = [];
+  let output = '';
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  const isActive = () => blocks.length === 0 || blocks[blocks.length - 1].active;
+
+  while ((match = tagPattern.exec(source)) !== null) {
+    if (isActive()) {
+      output += source.slice(lastIndex, match.index);
+    }
+    lastIndex = tagPattern.lastIndex;
+
+    const [tag, keyword, keyPath] = match;
+    if (keyword === '#if' || keyword === '#unless') {
+      const parentActive = isActive();
+      const truthy = isTruthy(lookup(context, keyPath));
+      const kind = keyword === '#if' ? 'if' : 'unless';
+      blocks.push({ kind, active: parentActive && (kind === 'if' ? truthy : !truthy), parentActive });
+    } else if (keyword === 'else') {
+      const block = blocks[blocks.length - 1];
+      if (!block) {
+        throw new Error('Invalid template: {{else}} outside of a conditional block');
+      }
+      block.active = block.parentActive && !block.active;
+    } else if (keyword === '/if' || keyword === '/unless') {
+      const block = blocks.pop();
+      if (!block || `/${block.kind}` !== keyword) {
+        throw new Error(`Invalid template: unexpected ${tag}`);
+      }
+    } else if (isActive()) {
+      // Placeholders we don't know, like GitHub Actions' `${{ secrets.TOKEN }}`, are left as they are
+      const value = lookup(context, keyPath);
+      output += value === undefined ? tag : stringify(value);
+    }
+  }
+
+  if (blocks.length > 0) {
+    throw new Error(`Invalid template: missing {{/${blocks[blocks.length - 1].kind}}}`);
+  }
+
+  return output + source.slice(lastIndex);
+}
+
+/**
+ * Find a file in a directory by name, ignoring case (GitHub template names are case-insensitive)
+ */
+function findFileIgnoringCase(dir: string, relativePath: string): string | null {
+  const fullDir = path.join(dir, path.dirname(relativePath));
+  if (!fs.existsSync(fullDir) || !fs.statSync(fullDir).isDirectory()) {
+    return null;
+  }
+
+  const name = path.basename(relativePath).toLowerCase();
+  const entry = fs.readdirSync(fullDir).find(file => file.toLowerCase() === name);
+  return entry ? path.join(fullDir, entry) : null;
+}
+
+/**
+ * Find the repository's own pull request template, prompting when there are several to choose from
+ */
+async function findRepositoryTemplate(): Promise<string | null> {
+  if (!isGitRepository()) {
+    return null;
+  }
+
+  const repoRoot = gitOutput(['rev-parse', '--show-toplevel']);
+
+  for (const file of REPOSITORY_TEMPLATE_FILES) {
+    const found = findFileIgnoringCase(repoRoot, file);
+    if (found && fs.statSync(found).isFile()) {
+      return found;
+    }
+  }
+
+  for (const dir of REPOSITORY_TEMPLATE_DIRS) {
+    const found = findFileIgnoringCase(repoRoot, dir);
+    if (!found || !fs.statSync(found).isDirectory()) {
+      continue;
+    }
+
+    const templates = fs.readdirSync(found).filter(file => file.toLowerCase().endsWith('.md')).sort();
+    if (templates.length === 0) {
+      continue;
+    }
+    if (templates.length === 1) {
+      return path.join(found, templates[0]);
+    }
+
+    // Non-interactive runs take the first template alphabetically
+    const { template } = await prompt([
+      {
+        type: 'list',
+        name: 'template',
+        message: 'Choose a pull request template:',
+        choices: templates
+      }
+    ], { defaults: { template: templates[0] }, hint: 'Set "templatePath" in the project config.' });
+    return path.join(found, template);
+  }
+
+  return null;
+}
+
+/**
+ * Resolve the PR body template: the configured `templatePath` first,
+ * then the repository's pull request template, then the built-in default
+ */
+export async function resolvePRTemplate(): Promise<PRTemplate> {
+  const templatePath = resolveConfig().templatePath;
+  if (templatePath) {
+    const fullPath = path.resolve(templatePath);
+    if (!fs.existsSync(fullPath)) {
+      throw new Error(`PR template not found: ${fullPath}`);
+    }
+    return { source: 'config', path: fullPath, content: fs.readFileSync(fullPath, 'utf8') };
+  }
+
+  const repositoryTemplate = await findRepositoryTemplate();
+  if (repositoryTemplate) {
+    let content = fs.readFileSync(repositoryTemplate, 'utf8');
+    // Repository templates are written for GitHub, not for us; make sure the task is still linked
+    if (!content.includes('{{task.url}}')) {
+      content = TASK_LINK_HEADER + content;
+    }
+    return { source: 'repository', path: repositoryTemplate, content };
+  }
+
+  return { source: 'default', path: null, content: DEFAULT_PR_TEMPLATE };
+}
@@ -0,0 +1,121 @@
+// Default PR title format, e.g. feat(auth): [ENG-123] Add login (or feat: [ENG-123] Add login without a module)
+export const DEFAULT_TITLE_FORMAT = '{type}{(module)}: [{id}] {title}';
+
+// Placeholders supported in title formats and what each one matches when parsing a title
+const TITLE_PLACEHOLDERS: Record<string, string> = {
+  type: '[\\w-]+',
+  module: '[a-z0-9-]+',
+  id: '[A-Za-z]+-\\d+',
+  ids: '[A-Za-z]+-\\d+(?:\\s*,\\s*[A-Za-z]+-\\d+)*',
+  title: '.+'
+};
+
+// A placeholder, optionally wrapped in literal text that is dropped with an empty value: {(module)}
+const PLACEHOLDER_PATTERN = /\{([^\w{}]*)(\w+)([^\w{}]*)\}/g;
+
+export interface PRTitleParts {
+  type: string;
+  module?: string;
+  // The primary task ID
+  id: string;
+  // Every task ID, for PRs that cover several tasks; `{ids}` falls back to `id`
+  ids?: string[];
+  title: string;
+}
+
+/**
+ * Find placeholders in a title format that aren't supported
+ */
+export function findUnknownTitlePlaceholders(format: string): string[] {
+  return [...format.matchAll(PLACEHOLDER_PATTERN)]
+    .map(match => match[2])
+    .filter(name => !(name in TITLE_PLACEHOLDERS));
+}
+
+/**
+ * Make sure a title format can be used to both create and parse titles
+ */
+export function validateTitleFormat(format: string): string | null {
+  const unknown = findUnknownTitlePlaceholders(format);
+  if (unknown.length > 0) {
+    return `uses unknown placeholder(s): ${unknown.map(name => `{${name}}`).join(', ')}`;
+  }
+  if (!/\{[^\w{}]*ids?[^\w{}]*\}/.test(format)) {
+    return 'must include the {id} or {ids} placeholder';
+  }
+  return null;
+}
+
+/**
+ * Build a PR title from a format such as `{type}{(module)}: [{id}] {title}`.
+ * A placeholder with surrounding text inside its braces, like `{(module)}`,
+ * is left out entirely when its value is empty.
+ */
+export function formatPRTitle(parts: PRTitleParts, format: string = DEFAULT_TITLE_FORMAT): string {
+  const values: Record<string, string> = {
+    type: parts.type,
+    module: parts.module || '',
+    id: parts.id,
+    ids: (parts.ids?.length ? parts.ids : [parts.id]).join(', '),
+    title: parts.title
+  };
+
+  return format
+    .replace(PLACEHOLDER_PATTERN, (_, prefix: string, name: string, suffix: string) => {
+      const value = values[name] ?? '';
+      return value ? `${prefix}${value}${suffix}` : '';
+    })
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+}
+
+/**
+ * Build a regular expression that matches titles produced by a format
+ */
+function titleFormatToRegExp(format: string): RegExp {
+  const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s*');
+  let source = '';
+  let lastIndex = 0;
+
+  for (const match of format.matchAll(PLACEHOLDER_PATTERN)) {
+    const [whole, prefix, name, suffix] = match;
+    source += escape(format.slice(lastIndex, match.index));
+    lastIndex = (match.index as number) + whole.length;
+
+    const group = `(?<${name}>${TITLE_PLACEHOLDERS[name] ?? '.*?'})`;
+    source += prefix || suffix ? `(?:${escape(prefix)}${group}${escape(suffix)})?` : group;
+  }
+
+  source += escape(format.slice(lastIndex));
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Parse a PR title created with the given format back into its parts.
+ * Returns null if the title doesn't follow the format.
+ */
+export function parsePRTitle(title: string, format: string = DEFAULT_TITLE_FORMAT): PRTitleParts | null {
+  const match = title.trim().match(titleFormatToRegExp(format));
+  if (!match?.groups?.id && !match?.groups?.ids) {
+    return null;
+  }
+
+  const { type = '', module, id, ids, title: description = '' } = match.groups;
+  const taskIds = ids ? ids.split(',').map(taskId => taskId.trim().toUpperCase()) : [id.toUpperCase()];
+  return { type, module: module || undefined, id: id ? id.toUpperCase() : taskIds[0], ids: taskIds, title: description.trim() };
+}
+
+/**
+ * Read every task ID out of a PR title, trying each format in turn (e.g. the combined, then the
+ * single-task format), else taking every ID the title mentions
+ */
+export function parseTitleTaskIds(title: string, formats: Array<string | undefined>): string[] {
+  for (const format of formats) {
+    const parts = format ? parsePRTitle(title, format) : null;
+    if (parts) {
+      return parts.ids || [parts.id];
+    }
+  }
+  // Only uppercase IDs, so words like utf-8 aren't mistaken for tasks
+  return [...new Set(title.match(/\b[A-Z]+-\d+\b/g) || [])];
+}
@@ -0,0 +1,127 @@
+import type { Issue, WorkflowState } from '@linear/sdk';
+import { resolveConfig } from './config.js';
+import { getLinearClient, WORKFLOW_STATE_TYPES } from './linear.js';
+import type { LifecycleEvent } from './types.js';
+import { LinearPrError } from './errors.js';
+
+// How to fix a transition that points at a state the team doesn't have
+const MISSING_STATE_HINT = 'Check "transitions" in the project config, or pass --no-transition.';
+
+// Transitions that apply unless the config overrides them; only state types, since names vary by team
+export const DEFAULT_TRANSITIONS: Partial<Record<LifecycleEvent, string>> = {
+  branchCreated: 'started',
+  merged: 'completed',
+  closed: 'unstarted'
+};
+
+// State types an issue is finished in; closing a PR doesn't reopen these
+const FINISHED_STATE_TYPES = ['completed', 'canceled'];
+
+/**
+ * A workflow state change made (or, in a dry run, planned) for an issue
+ */
+export interface TransitionResult {
+  taskId: string;
+  event: LifecycleEvent;
+  from: string;
+  to: string;
+}
+
+/**
+ * Get the configured target for each event, on top of the defaults
+ */
+export function getTransitions(): Partial<Record<LifecycleEvent, string>> {
+  return { ...DEFAULT_TRANSITIONS, ...resolveConfig().transitions };
+}
+
+/**
+ * Find a team's workflow state by name (case-insensitive), or else by type.
+ * A type picks the team's first state of that type.
+ */
+export function findWorkflowState(states: WorkflowState[], target: string): WorkflowState | null {
+  const byName = states.find(state => state.name.toLowerCase() === target.toLowerCase());
+  if (byName) {
+    return byName;
+  }
+
+  if (!WORKFLOW_STATE_TYPES.includes(target.toLowerCase())) {
+    return null;
+  }
+  const ofType = states
+    .filter(state => state.type === target.toLowerCase())
+    .sort((a, b) => a.position - b.position);
+  return ofType[0] ?? null;
+}
+
+/**
+ * Load an issue together with its current state and its team's workflow states
+ */
+async function loadIssueStates(taskId: string): Promise<{ issue: Issue; current: WorkflowState | undefined; states: WorkflowState[]; teamKey: string }> {
+  const client = await getLinearClient();
+  const issue = await client.issue(taskId);
+  const [current, team] = await Promise.all([issue.state, issue.team]);
+  if (!team) {
+    throw new Error(`Could not load the team of ${taskId}`);
+  }
+  const { nodes: states } = await team.states();
+  return { issue, current, states, teamKey: team.key };
+}
+
+/**
+ * Check that every configured transition target exists in the issue's team,
+ * so a typo fails before anything is changed
+ */
+export async function validateTransitions(taskId: string, events: LifecycleEvent[]): Promise<void> {
+  const transitions = getTransitions();
+  const targets = events.filter(event => transitions[event]);
+  if (targets.length === 0) {
+    return;
+  }
+
+  const { states, teamKey } = await loadIssueStates(taskId);
+  for (const event of targets) {
+    const target = transitions[event] as string;
+    if (!findWorkflowState(states, target)) {
+      const available = states.map(state => state.name).join(', ');
+      throw new LinearPrError(`Workflow state "${target}" (for ${event}) does not exist in team ${teamKey}. Available states: ${available}`, { hint: MISSING_STATE_HINT });
+    }
+  }
+}
+
+/**
+ * Move an issue to the workflow state configured for an event.
+ * Returns the change, or null when no transition is configured or the issue is already there
+ * (or, for a closed PR, already completed or canceled).
+ * With `dryRun`, the change is worked out but not made.
+ */
+export async function transitionTask(taskId: string, event: LifecycleEvent, options: { dryRun?: boolean } = {}): Promise<TransitionResult | null> {
+  const target = getTransitions()[event];
+  if (!target) {
+    return null;
+  }
+
+  const { issue, current, states, teamKey } = await loadIssueStates(taskId);
+  const next = findWorkflowState(states, target);
+  if (!next) {
+    throw new LinearPrError(`Workflow state "${target}" (for ${event}) does not exist in team ${teamKey}`, { hint: MISSING_STATE_HINT });
+  }
+
+  // Don't move an issue that is already in the target state, or already in a state of the target type
+  // (e.g. "started" shouldn't pull an issue in review back to in progress)
+  if (current && (current.id === next.id || current.type === target.toLowerCase())) {
+    return null;
+  }
+  if (event === 'closed' && current && FINISHED_STATE_TYPES.includes(current.type)) {
+    return null;
+  }
+
+  if (!options.dryRun) {
+    const client = await getLinearClient();
+    const payload = await client.updateIssue(issue.id, { stateId: next.id });
+    if (!payload.success) {
+      throw new Error(`Linear did not accept moving ${taskId} to "${next.name}"`);
+    }
+  }
+
+  return { taskId: issue.identifier, event, from: current?.name || 'Unknown', to: next.name };
+}
@@ -1,10 +1,97 @@
+/**
+ * How branch names are chosen for plain task IDs:
+ * `pattern` formats them with `branchPattern`, `linear` uses the issue's suggested branch name
+ */
+export type BranchNamingMode = 'pattern' | 'linear';
+
+/**
+ * Points in a task's life that can move its Linear issue to another workflow state
+ */
+export const LIFECYCLE_EVENTS = ['branchCreated', 'draftOpened', 'readyForReview', 'changesRequested', 'merged', 'closed'] as const;
+export type LifecycleEvent = typeof LIFECYCLE_EVENTS[number];
+
+/**
+ * Linear's priority levels by name
+ */
+export const PRIORITY_NAMES = ['none', 'urgent', 'high', 'medium', 'low'] as const;
+export type PriorityName = typeof PRIORITY_NAMES[number];
+
+/**
+ * Code hosts that pull/merge requests can be opened on
+ */
+export type CodeHostName = 'github' | 'gitlab';
+
 export interface Config {
     githubToken?: string;
+    githubUsername?: string;
     linearAccessToken?: string;
     linearRefreshToken?: string;
     linearTokenExpiry?: number;
+    isApiKey?: boolean;
     githubRepo?: string;
+    githubHost?: string;
+    githubApiUrl?: string;
+    codeHost?: CodeHostName;
+    gitlabToken?: string;
+    gitlabUsername?: string;
+    gitlabHost?: string;
+    gitlabApiUrl?: string;
     defaultBranch?: string;
     linearOAuthClientId?: string;
     linearOAuthClientSecret?: string;
-  }
\ No newline at end of file
+    linearOAuthPort?: number;
+    prTypes?: string[];
+    titleFormat?: string;
+    // Title format for PRs that cover several tasks; titleFormat (with the primary task) when not set
+    combinedTitleFormat?: string;
+    requireModule?: boolean;
+    branchNaming?: BranchNamingMode;
+    branchPattern?: string;
+    branchTypePrefixes?: Record<string, string>;
+    branchMaxLength?: number;
+    templatePath?: string;
+    linearComment?: boolean;
+    // Workflow state name or type (e.g. "In Review" or "started") to move the issue to on each event
+    transitions?: Partial<Record<LifecycleEvent, string>>;
+    // Linear label name to the code host label added to the PR
+    labelMapping?: Record<string, string>;
+    // Linear priority to the code host label added to the PR
+    priorityLabels?: Partial<Record<PriorityName, string>>;
+    // Create mapped labels the repository doesn't have yet, instead of skipping them
+    createMissingLabels?: boolean;
+    // Linear team key to the code host team (slug) asked to review
+    teamReviewers?: Record<string, string>;
+    // Linear user (email or display name) to code host username, for assignees and CODEOWNERS emails
+    userMapping?: Record<string, string>;
+    // Request reviews from the CODEOWNERS of the changed files (default true)
+    codeownersReviewers?: boolean;
+    profiles?: Record<string, Profile>;
+    activeProfile?: string;
+  }
+
+/**
+ * Settings that a repository can override with a checked-in `.linear-pr` file
+ */
+export type ProjectConfig = Pick<Config, 'githubRepo' | 'githubHost' | 'githubApiUrl' | 'codeHost' | 'gitlabHost' | 'gitlabApiUrl' | 'defaultBranch' | 'prTypes' | 'titleFormat' | 'combinedTitleFormat' | 'requireModule' | 'branchNaming' | 'branchPattern' | 'branchTypePrefixes' | 'branchMaxLength' | 'templatePath' | 'linearComment' | 'transitions' | 'labelMapping' | 'priorityLabels' | 'createMissingLabels' | 'teamReviewers' | 'userMapping' | 'codeownersReviewers'>;
+
+/**
+ * Settings a named profile can hold; its tokens are kept in the secret store under the profile's name
+ */
+export type ProfileSettings = Omit<Config, 'profiles' | 'activeProfile' | 'githubToken' | 'gitlabToken' | 'linearAccessToken' | 'linearRefreshToken' | 'linearOAuthClientSecret'>;
+
+/**
+ * Rules for selecting a profile automatically
+ */
+export interface ProfileMatch {
+  // Remote patterns like `github.com/acme/*`, matched against host/owner/repo of the origin remote
+  remotes?: string[];
+  // Directories (and everything below them) the profile applies to
+  paths?: string[];
+}
+
+/**
+ * A named set of credentials and settings, e.g. for a second Linear workspace or GitHub account
+ */
+export interface Profile extends ProfileSettings {
+  match?: ProfileMatch;
+}
@@ -1,4 +1,4 @@
-import { execSync } from 'child_process';
+import { formatPRTitle } from './title.js';
 
 /**
  * Validates if a string is a valid Linear task ID (e.g., ENG-123)
@@ -29,52 +29,155 @@ export function extractTaskIdFromBranchName(branchName: string): string | null {
   return null;
 }
 
+// Default branch naming pattern, e.g. feature/eng-123-add-login
+export const DEFAULT_BRANCH_PATTERN = '{type}/{team}-{number}-{slug}';
+
+// Default branch prefix for each PR type; types not listed use their own name
+export const DEFAULT_BRANCH_TYPE_PREFIXES: Record<string, string> = { feat: 'feature' };
+
+// Default maximum length of generated branch names
+export const DEFAULT_BRANCH_MAX_LENGTH = 80;
+
+// Placeholders supported in branch naming patterns
+export const BRANCH_PATTERN_PLACEHOLDERS = ['type', 'user', 'team', 'number', 'id', 'slug'];
+
+// Letters that don't decompose into an ASCII base letter plus accents
+const TRANSLITERATIONS: Record<string, string> = {
+  'ß': 'ss', 'æ': 'ae', 'œ': 'oe', 'ø': 'o', 'đ': 'd', 'ð': 'd', 'þ': 'th', 'ł': 'l', 'ı': 'i', 'ħ': 'h', 'ŧ': 't'
+};
+
+export interface BranchNameOptions {
+  // PR type, mapped to a prefix through typePrefixes (default: feat)
+  type?: string;
+  // User handle for the {user} placeholder
+  user?: string;
+  // Pattern such as {type}/{user}/{team}-{number}-{slug}
+  pattern?: string;
+  typePrefixes?: Record<string, string>;
+  maxLength?: number;
+}
+
 /**
- * Creates a sanitized branch name from a task ID and title
+ * Transliterate accented and other non-ASCII Latin letters to plain ASCII
  */
-export function createBranchName(taskId: string, taskTitle: string): string {
-  // Remove special characters, replace spaces with dashes, and convert to lowercase
-  const sanitizedTitle = taskTitle
+export function transliterate(input: string): string {
+  return input
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[\u0080-\uffff]/g, char => TRANSLITERATIONS[char.toLowerCase()] ?? char);
+}
+
+/**
+ * Turn free text into a lowercase, dash-separated slug
+ */
+export function slugify(input: string): string {
+  return transliterate(input)
     .toLowerCase()
-    .replace(/[^\w\s-]/g, '')
-    .replace(/\s+/g, '-')
-    .trim();
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
 
-  // Extract team prefix from taskId (e.g., "TEAM" from "TEAM-123")
-  const teamPrefix = taskId.split('-')[0].toLowerCase();
-  
-  // Format the branch name according to the required format: feature/team-XXXX-description
-  return `feature/${teamPrefix}-${taskId.split('-')[1]}-${sanitizedTitle}`;
+/**
+ * Find placeholders in a branch pattern that aren't supported
+ */
+export function findUnknownBranchPlaceholders(pattern: string): string[] {
+  const placeholders = [...pattern.matchAll(/\{(\w+)\}/g)].map(match => match[1]);
+  return placeholders.filter(name => !BRANCH_PATTERN_PLACEHOLDERS.includes(name));
+}
+
+/**
+ * Clean up the separators in an expanded branch name:
+ * collapse repeated dashes and slashes and strip dangling punctuation
+ */
+function tidyBranchName(name: string): string {
+  return name
+    .split('/')
+    .map(part => part.replace(/-{2,}/g, '-').replace(/^[-.]+|[-.]+$/g, ''))
+    .filter(Boolean)
+    .join('/');
 }
 
 /**
- * Execute a git command and return the output
+ * Truncate a slug to at most maxLength characters, cutting at a word boundary when possible
  */
-export function runGitCommand(command: string): string {
-  try {
-    return execSync(command, { stdio: ['pipe', 'pipe', 'ignore'] }).toString().trim();
-  } catch (error) {
-    throw new Error(`Git command failed: ${command}`);
+function truncateSlug(slug: string, maxLength: number): string {
+  if (slug.length <= maxLength) {
+    return slug;
   }
+  if (maxLength <= 0) {
+    return '';
+  }
+
+  const cut = slug.slice(0, maxLength + 1);
+  const boundary = cut.lastIndexOf('-');
+  return (boundary > 0 ? cut.slice(0, boundary) : slug.slice(0, maxLength)).replace(/-+$/, '');
 }
 
 /**
- * Check if we're in a git repository
+ * Creates a sanitized branch name from a task ID and title using a naming pattern.
+ * Example with the default pattern: ENG-123 "Add login" -> feature/eng-123-add-login
  */
-export function isGitRepository(): boolean {
-  try {
-    execSync('git rev-parse --is-inside-work-tree', { stdio: 'ignore' });
-    return true;
-  } catch (error) {
-    return false;
+export function createBranchName(taskId: string, taskTitle: string, options: BranchNameOptions = {}): string {
+  const {
+    type = 'feat',
+    user,
+    pattern = DEFAULT_BRANCH_PATTERN,
+    typePrefixes = DEFAULT_BRANCH_TYPE_PREFIXES,
+    maxLength = DEFAULT_BRANCH_MAX_LENGTH
+  } = options;
+
+  const unknown = findUnknownBranchPlaceholders(pattern);
+  if (unknown.length > 0) {
+    throw new Error(`Unknown placeholder(s) in branch pattern "${pattern}": ${unknown.map(name => `{${name}}`).join(', ')}`);
+  }
+
+  if (pattern.includes('{user}') && !user) {
+    throw new Error(`Branch pattern "${pattern}" uses {user}, but no user handle is known. Run \`linear-pr setup\` to connect GitHub.`);
   }
+
+  // Extract team prefix and number from taskId (e.g., "TEAM" and "123" from "TEAM-123")
+  const [team, number] = taskId.toLowerCase().split('-');
+  const values: Record<string, string> = {
+    type: slugify(typePrefixes[type.toLowerCase()] ?? type),
+    user: slugify(user || ''),
+    team,
+    number,
+    id: `${team}-${number}`
+  };
+
+  const expand = (slug: string) => tidyBranchName(
+    pattern.replace(/\{(\w+)\}/g, (_, name: string) => (name === 'slug' ? slug : values[name]))
+  );
+
+  // Work out how much room is left for the slug, then cut it down at a word boundary
+  const slug = slugify(taskTitle);
+  const available = maxLength - expand('').length - (pattern.includes('{slug}') ? 1 : 0);
+  return expand(truncateSlug(slug, available));
 }
 
 /**
- * Get the current git branch name
+ * Check a branch name against git's reference naming rules and the maximum length.
+ * Returns a description of the problem, or null if the name is valid.
  */
-export function getCurrentBranch(): string {
-  return runGitCommand('git branch --show-current');
+export function validateBranchName(branchName: string, maxLength?: number): string | null {
+  if (!branchName) {
+    return 'Branch name is empty';
+  }
+  const hasControlCharacter = [...branchName].some(char => char.charCodeAt(0) < 32 || char.charCodeAt(0) === 127);
+  if (hasControlCharacter || /[\s~^:?*[\\]/.test(branchName)) {
+    return 'Branch name contains spaces or characters not allowed by git (~ ^ : ? * [ \\)';
+  }
+  if (branchName.includes('..') || branchName.includes('//') || branchName.includes('@{') || branchName === '@') {
+    return 'Branch name contains a sequence not allowed by git (.., //, @{)';
+  }
+  if (/^[-/.]|[/.]$|\.lock$|\/\./.test(branchName)) {
+    return 'Branch name has a leading or trailing character not allowed by git';
+  }
+  if (maxLength && branchName.length > maxLength) {
+    return `Branch name is longer than ${maxLength} characters`;
+  }
+  return null;
 }
 
 /**
@@ -85,6 +188,14 @@ export function getTaskIdFromBranch(branchName: string): string | null {
   return match ? match[1].toUpperCase() : null;
 }
 
+/**
+ * Check if a branch name or title mentions a task ID, without matching longer IDs (ENG-1 in ENG-12)
+ */
+export function containsTaskId(text: string, taskId: string): boolean {
+  const escapedId = taskId.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^a-z0-9])${escapedId}(?![0-9])`, 'i').test(text);
+}
+
 /**
  * Format a string to be a valid PR scope:
  * lowercase, containing only letters, numbers, and hyphens
@@ -106,14 +217,14 @@ export function formatScope(input: string): string {
 }
 
 /**
- * Creates a PR title from the given parameters
+ * Creates a PR title from the given parameters, following the title format
  */
-export function createPRTitle(type: string, module: string, taskId: string, description: string): string {
+export function createPRTitle(type: string, module: string | undefined, taskId: string | string[], description: string, format?: string): string {
   // Ensure module follows required format
-  const formattedModule = formatScope(module);
+  const formattedModule = module ? formatScope(module) : undefined;
   
-  // Ensure taskId is uppercase
-  const formattedTaskId = taskId.toUpperCase();
+  // Ensure task IDs are uppercase; with several, the first is the primary one
+  const taskIds = (Array.isArray(taskId) ? taskId : [taskId]).map(id => id.toUpperCase());
   
-  return `${type}(${formattedModule}): [${formattedTaskId}] ${description}`;
-} 
\ No newline at end of file
+  return formatPRTitle({ type, module: formattedModule, id: taskIds[0], ids: taskIds, title: description }, format);
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { codeownersPatternToRegExp, findCodeowners, parseCodeowners } from '../src/codeowners.js';
+
+/**
+ * Check which of the paths a CODEOWNERS pattern matches
+ */
+function matching(pattern: string, paths: string[]): string[] {
+  const regExp = codeownersPatternToRegExp(pattern);
+  return paths.filter(file => regExp.test(file));
+}
+
+describe('codeownersPatternToRegExp', () => {
+  it('matches a file name in any directory', () => {
+    expect(matching('*.js', ['app.js', 'src/app.js', 'src/app.ts', 'app.jsx'])).toEqual(['app.js', 'src/app.js']);
+  });
+
+  it('anchors a pattern with a leading slash to the root', () => {
+    expect(matching('/build/logs/', ['build/logs/a.log', 'build/logs/deep/b.log', 'src/build/logs/c.log', 'build/logs']))
+      .toEqual(['build/logs/a.log', 'build/logs/deep/b.log']);
+  });
+
+  it('matches a directory name anywhere when the pattern has no inner slash', () => {
+    expect(matching('apps/', ['apps/a.ts', 'src/apps/b.ts', 'apps.ts'])).toEqual(['apps/a.ts', 'src/apps/b.ts']);
+  });
+
+  it('matches any depth with **', () => {
+    expect(matching('**/logs', ['logs/a.log', 'build/logs/b.log', 'deep/build/logs/c.log', 'logs.txt']))
+      .toEqual(['logs/a.log', 'build/logs/b.log', 'deep/build/logs/c.log']);
+    expect(matching('docs/**/*.md', ['docs/a.md', 'docs/x/y/b.md', 'src/docs/c.md'])).toEqual(['docs/a.md', 'docs/x/y/b.md']);
+  });
+
+  it('matches only the direct children of a directory with a trailing *', () => {
+    expect(matching('docs/*', ['docs/getting-started.md', 'docs/build-app/troubleshooting.md', 'src/docs/a.md']))
+      .toEqual(['docs/getting-started.md']);
+    expect(codeownersPatternToRegExp('docs/*').source).toBe('^docs\\/[^/]*$');
+  });
+
+  it('matches everything below a directory with a trailing /*/', () => {
+    expect(matching('docs/*/', ['docs/a.md', 'docs/build-app/troubleshooting.md'])).toEqual(['docs/build-app/troubleshooting.md']);
+  });
+
+  it('matches every file with a lone *', () => {
+    expect(matching('*', ['README.md', 'src/deep/app.ts'])).toEqual(['README.md', 'src/deep/app.ts']);
+  });
+
+  it('escapes regular expression characters in paths', () => {
+    expect(matching('/src/(legacy)+.ts', ['src/(legacy)+.ts', 'src/legacyy.ts'])).toEqual(['src/(legacy)+.ts']);
+  });
+});
+
+describe('parseCodeowners', () => {
+  it('reads patterns and owners, skipping comments and GitLab sections', () => {
+    const rules = parseCodeowners([
+      '# Owners',
+      '*       @org/everyone',
+      '',
+      '[Docs]',
+      '/docs/  @alice docs@example.com # the docs team',
+      '/docs/generated/'
+    ].join('\n'));
+
+    expect(rules.map(({ pattern, owners }) => ({ pattern, owners }))).toEqual([
+      { pattern: '*', owners: ['@org/everyone'] },
+      { pattern: '/docs/', owners: ['@alice', 'docs@example.com'] },
+      { pattern: '/docs/generated/', owners: [] }
+    ]);
+  });
+});
+
+describe('GitHub\'s documented CODEOWNERS examples', () => {
+  const rules = parseCodeowners([
+    '*       @global-owner1 @global-owner2',
+    '*.js    @js-owner',
+    '*.go docs@example.com',
+    '/build/logs/ @doctocat',
+    'docs/*  docs@example.com',
+    'apps/ @octocat',
+    '/docs/ @doctocat',
+    '/scripts/ @doctocat @octocat',
+    '**/logs @octocat',
+    '/apps/ @octocat',
+    '/apps/github'
+  ].join('\n'));
+  const owners = (file: string) => findCodeowners(rules, [file]);
+
+  it.each([
+    ['README.md', ['@global-owner1', '@global-owner2']],
+    ['src/index.js', ['@js-owner']],
+    ['cmd/main.go', ['docs@example.com']],
+    ['build/logs/2024/app.log', ['@octocat']],
+    ['docs/getting-started.md', ['@doctocat']],
+    ['docs/build-app/troubleshooting.md', ['@doctocat']],
+    ['src/docs/notes.md', ['@global-owner1', '@global-owner2']],
+    ['web/apps/index.ts', ['@octocat']],
+    ['scripts/deploy.sh', ['@doctocat', '@octocat']],
+    ['deep/nested/logs/out.txt', ['@octocat']],
+    ['apps/github/index.ts', []],
+    ['apps/other/index.ts', ['@octocat']]
+  ])('gives %s the owners %j', (file, expected) => {
+    expect(owners(file)).toEqual(expected);
+  });
+
+  it('applies `docs/*` only to the files directly in docs/', () => {
+    const docsRule = rules.find(rule => rule.pattern === 'docs/*');
+    expect(docsRule?.matches.test('docs/getting-started.md')).toBe(true);
+    expect(docsRule?.matches.test('docs/build-app/troubleshooting.md')).toBe(false);
+  });
+});
+
+describe('findCodeowners', () => {
+  const rules = parseCodeowners('*  @org/everyone\n*.ts  @bob\n/docs/  @alice\n/docs/generated/\n');
+
+  it('lets the last matching rule win', () => {
+    expect(findCodeowners(rules, ['src/app.ts'])).toEqual(['@bob']);
+    expect(findCodeowners(rules, ['docs/guide.ts'])).toEqual(['@alice']);
+  });
+
+  it('collects the owners of every file once', () => {
+    expect(findCodeowners(rules, ['README.md', 'src/a.ts', 'src/b.ts'])).toEqual(['@org/everyone', '@bob']);
+  });
+
+  it('gives files under a rule without owners no owners', () => {
+    expect(findCodeowners(rules, ['docs/generated/api.md'])).toEqual([]);
+  });
+});
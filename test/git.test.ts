@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DirtyWorkingTreeError,
+  GitAuthError,
+  GitError,
+  MissingRefError,
+  NonFastForwardError,
+  NotARepositoryError,
+  formatGitCommand,
+  toGitError
+} from '../src/git.js';
+import { EXIT_CODES } from '../src/errors.js';
+
+describe('toGitError', () => {
+  it.each([
+    ['fatal: not a git repository (or any of the parent directories): .git', NotARepositoryError],
+    ['error: Your local changes to the following files would be overwritten by checkout:\n\tsrc/a.ts\nPlease commit your changes or stash them before you switch branches.', DirtyWorkingTreeError],
+    [' ! [rejected]        main -> main (non-fast-forward)\nerror: failed to push some refs', NonFastForwardError],
+    ['remote: Invalid username or password.\nfatal: Authentication failed for \'https://github.com/o/r.git/\'', GitAuthError],
+    ['fatal: couldn\'t find remote ref feature/missing', MissingRefError],
+    ['fatal: something unexpected', GitError]
+  ])('classifies %j', (stderr, ErrorClass) => {
+    const error = toGitError(['fetch', 'origin'], stderr, 128);
+    expect(error).toBeInstanceOf(ErrorClass);
+    expect(error.constructor).toBe(ErrorClass);
+    expect(error.exitCode).toBe(EXIT_CODES.git);
+  });
+
+  it('keeps git\'s fatal and error lines in the message', () => {
+    const error = toGitError(['push', 'origin', 'main'], 'To github.com:o/r.git\n ! [rejected] main -> main (fetch first)\nerror: failed to push some refs\n', 1);
+    expect(error.message).toBe('`git push origin main` failed: error: failed to push some refs');
+    expect(error.args).toEqual(['push', 'origin', 'main']);
+    expect(error.status).toBe(1);
+    expect(error.hint).toBe('Pull or rebase onto the remote branch, then try again.');
+  });
+
+  it('falls back to the last line, then the exit status', () => {
+    expect(toGitError(['status'], 'warning: one\nsomething went wrong\n', 1).message).toBe('`git status` failed: something went wrong');
+    expect(toGitError(['status'], '', 2).message).toBe('`git status` failed: exit code 2');
+  });
+});
+
+describe('formatGitCommand', () => {
+  it('quotes arguments that need it', () => {
+    expect(formatGitCommand(['commit', '-m', 'Fix "it" $now'])).toBe('git commit -m "Fix \\"it\\" \\$now"');
+  });
+});
@@ -0,0 +1,273 @@
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createGitlabProvider } from '../src/providers/gitlab.js';
+import { AuthError, LinearPrError, PullRequestExistsError, RateLimitError } from '../src/errors.js';
+import type { CodeHostProvider } from '../src/providers/types.js';
+
+// A canned response for one `METHOD /path` on the stand-in API
+interface Route {
+  status?: number;
+  headers?: Record<string, string>;
+  body: unknown;
+}
+
+// A request the stand-in API received
+interface RecordedRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  token: string | undefined;
+  body: Record<string, unknown> | null;
+}
+
+const PROJECT = 'group/sub/project';
+const PROJECT_PATH = `/api/v4/projects/${encodeURIComponent(PROJECT)}`;
+
+let server: http.Server;
+let provider: CodeHostProvider;
+let routes: Map<string, Route>;
+let requests: RecordedRequest[];
+
+/**
+ * A merge request as the GitLab API returns it
+ */
+function mergeRequest(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    iid: 7,
+    web_url: `https://gitlab.test/${PROJECT}/-/merge_requests/7`,
+    title: 'feat: [ENG-1] Add login',
+    description: 'Body',
+    state: 'opened',
+    draft: false,
+    source_branch: 'feature/eng-1-add-login',
+    target_branch: 'main',
+    ...overrides
+  };
+}
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let raw = '';
+    req.setEncoding('utf8');
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const url = new URL(req.url as string, 'http://localhost');
+      requests.push({
+        method: req.method as string,
+        path: url.pathname,
+        query: url.searchParams,
+        token: req.headers['private-token'] as string | undefined,
+        body: raw ? JSON.parse(raw) : null
+      });
+
+      const route = routes.get(`${req.method} ${url.pathname}`);
+      res.writeHead(route ? route.status ?? 200 : 404, { 'Content-Type': 'application/json', ...route?.headers });
+      res.end(JSON.stringify(route ? route.body : { message: '404 Not Found' }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  const { port } = server.address() as AddressInfo;
+  provider = createGitlabProvider({ host: 'gitlab.test', apiUrl: `http://127.0.0.1:${port}/api/v4/`, token: 'test-token', project: PROJECT });
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  routes = new Map();
+  requests = [];
+});
+
+describe('createGitlabProvider', () => {
+  it('creates a merge request with existing labels and resolved reviewers', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    routes.set(`GET ${PROJECT_PATH}/labels`, { body: [{ name: 'bug' }, { name: 'bugfix' }] });
+    routes.set('GET /api/v4/users', { body: [{ id: 11 }] });
+    routes.set(`POST ${PROJECT_PATH}/merge_requests`, { status: 201, body: mergeRequest({ title: 'Draft: feat: [ENG-1] Add login', draft: true }) });
+
+    const created = await provider.createChangeRequest({
+      title: 'feat: [ENG-1] Add login',
+      body: 'Body',
+      sourceBranch: 'feature/eng-1-add-login',
+      targetBranch: 'main',
+      draft: true,
+      labels: ['Bug', 'Missing'],
+      reviewers: ['alice']
+    });
+
+    expect(created).toEqual({
+      number: 7,
+      url: `https://gitlab.test/${PROJECT}/-/merge_requests/7`,
+      title: 'feat: [ENG-1] Add login',
+      state: 'draft',
+      sourceBranch: 'feature/eng-1-add-login',
+      targetBranch: 'main',
+      body: 'Body'
+    });
+
+    const create = requests.find(request => request.method === 'POST');
+    expect(create?.token).toBe('test-token');
+    expect(create?.body).toEqual({
+      source_branch: 'feature/eng-1-add-login',
+      target_branch: 'main',
+      title: 'Draft: feat: [ENG-1] Add login',
+      description: 'Body',
+      labels: 'bug',
+      assignee_ids: [],
+      reviewer_ids: [11]
+    });
+    expect(requests.find(request => request.path === '/api/v4/users')?.query.get('username')).toBe('alice');
+    warn.mockRestore();
+  });
+
+  it('finds the latest merge request from a branch', async () => {
+    routes.set(`GET ${PROJECT_PATH}/merge_requests`, { body: [mergeRequest({ state: 'merged' })] });
+
+    const found = await provider.findChangeRequest('feature/eng-1-add-login');
+
+    expect(found?.state).toBe('merged');
+    expect(requests[0].query.get('source_branch')).toBe('feature/eng-1-add-login');
+    expect(requests[0].query.get('order_by')).toBe('updated_at');
+    expect(requests[0].query.get('per_page')).toBe('1');
+  });
+
+  it('returns null when no merge request comes from the branch', async () => {
+    routes.set(`GET ${PROJECT_PATH}/merge_requests`, { body: [] });
+
+    expect(await provider.findChangeRequest('feature/none')).toBeNull();
+  });
+
+  it('finds older merge requests for tasks by their Linear branch name, then by title', async () => {
+    routes.set(`GET ${PROJECT_PATH}/merge_requests`, { body: [] });
+
+    await provider.findChangeRequestsForTasks(['ENG-1', 'ENG-2'], new Map([['ENG-1', 'jane/eng-1-add-login']]));
+
+    const queries = requests.map(request => Object.fromEntries(request.query));
+    expect(queries).toEqual([
+      { state: 'all', order_by: 'updated_at', sort: 'desc', per_page: '100' },
+      { state: 'all', source_branch: 'jane/eng-1-add-login', per_page: '10' },
+      { state: 'all', search: 'ENG-1', in: 'title', per_page: '20' },
+      { state: 'all', search: 'ENG-2', in: 'title', per_page: '20' }
+    ]);
+  });
+
+  it('keeps a merge request from the Linear branch even when its title doesn\'t mention the task', async () => {
+    routes.set(`GET ${PROJECT_PATH}/merge_requests`, { body: [mergeRequest({ iid: 3, title: 'Login page', source_branch: 'jane/login' })] });
+
+    const found = await provider.findChangeRequestsForTasks(['ENG-1'], new Map([['ENG-1', 'jane/login']]));
+
+    expect(found.get('ENG-1')?.map(changeRequest => changeRequest.number)).toEqual([3]);
+  });
+
+  it('updates the title, keeping the current draft state', async () => {
+    routes.set(`GET ${PROJECT_PATH}/merge_requests/7`, { body: mergeRequest({ title: 'Draft: Old', draft: true }) });
+    routes.set(`PUT ${PROJECT_PATH}/merge_requests/7`, { body: mergeRequest({ title: 'Draft: New', draft: true, target_branch: 'develop' }) });
+
+    const updated = await provider.updateChangeRequest(7, { title: 'New', targetBranch: 'develop' });
+
+    expect(updated).toMatchObject({ title: 'New', state: 'draft', targetBranch: 'develop' });
+    expect(requests.find(request => request.method === 'PUT')?.body).toEqual({ title: 'Draft: New', target_branch: 'develop' });
+  });
+
+  it('marks a merge request ready by dropping the draft prefix', async () => {
+    routes.set(`PUT ${PROJECT_PATH}/merge_requests/7`, { body: mergeRequest() });
+
+    await provider.updateChangeRequest(7, { title: 'Add login', draft: false, body: 'New body' });
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].body).toEqual({ title: 'Add login', description: 'New body' });
+  });
+
+  it('gets details with mergeability, pipeline jobs and reviews', async () => {
+    routes.set(`GET ${PROJECT_PATH}/merge_requests/7`, {
+      body: mergeRequest({
+        detailed_merge_status: 'mergeable',
+        head_pipeline: { id: 3 },
+        reviewers: [{ username: 'alice' }, { username: 'bob' }]
+      })
+    });
+    routes.set(`GET ${PROJECT_PATH}/merge_requests/7/approvals`, { body: { approved_by: [{ user: { username: 'alice' } }] } });
+    routes.set(`GET ${PROJECT_PATH}/pipelines/3/jobs`, {
+      body: [
+        { name: 'test', status: 'success', allow_failure: false, web_url: 'https://gitlab.test/jobs/1' },
+        { name: 'lint', status: 'failed', allow_failure: true, web_url: 'https://gitlab.test/jobs/2' },
+        { name: 'deploy', status: 'running', allow_failure: false, web_url: 'https://gitlab.test/jobs/3' }
+      ]
+    });
+
+    const details = await provider.getChangeRequestDetails(7);
+
+    expect(details.mergeable).toBe(true);
+    expect(details.checks).toEqual([
+      { name: 'test', status: 'success', url: 'https://gitlab.test/jobs/1' },
+      { name: 'lint', status: 'neutral', url: 'https://gitlab.test/jobs/2' },
+      { name: 'deploy', status: 'pending', url: 'https://gitlab.test/jobs/3' }
+    ]);
+    expect(details.reviews).toEqual([
+      { reviewer: 'alice', state: 'approved' },
+      { reviewer: 'bob', state: 'pending' }
+    ]);
+  });
+
+  it('reports unknown mergeability while GitLab is still checking', async () => {
+    routes.set(`GET ${PROJECT_PATH}/merge_requests/7`, { body: mergeRequest({ detailed_merge_status: 'checking' }) });
+    routes.set(`GET ${PROJECT_PATH}/merge_requests/7/approvals`, { body: {} });
+
+    const details = await provider.getChangeRequestDetails(7);
+
+    expect(details.mergeable).toBeNull();
+    expect(details.checks).toEqual([]);
+  });
+
+  describe('errors', () => {
+    it('maps 401 to an AuthError', async () => {
+      routes.set(`GET ${PROJECT_PATH}/merge_requests`, { status: 401, body: { message: '401 Unauthorized' } });
+
+      const error = await provider.findChangeRequest('main').catch(caught => caught);
+
+      expect(error).toBeInstanceOf(AuthError);
+      expect(error.message).toBe('GitLab rejected the token: 401 Unauthorized');
+      expect(error.cause.message).toMatch(/\/merge_requests\?.* responded 401 Unauthorized$/);
+    });
+
+    it('maps 409 "already exists" to a PullRequestExistsError', async () => {
+      routes.set(`POST ${PROJECT_PATH}/merge_requests`, {
+        status: 409,
+        body: { message: ['Another open merge request already exists for this source branch: !7'] }
+      });
+
+      const error = await provider.createChangeRequest({
+        title: 'Add login',
+        body: '',
+        sourceBranch: 'feature/eng-1-add-login',
+        targetBranch: 'main',
+        draft: false
+      }).catch(caught => caught);
+
+      expect(error).toBeInstanceOf(PullRequestExistsError);
+      expect(error.message).toBe('Another open merge request already exists for this source branch: !7');
+    });
+
+    it('maps 429 to a RateLimitError with the reset time', async () => {
+      routes.set(`GET ${PROJECT_PATH}/merge_requests/7`, { status: 429, headers: { 'RateLimit-Reset': '1700000000' }, body: { message: 'Retry later' } });
+
+      const error = await provider.getChangeRequest(7).catch(caught => caught);
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error.resetAt).toEqual(new Date(1700000000 * 1000));
+    });
+
+    it('reports other failures with the status and GitLab\'s message', async () => {
+      routes.set(`GET ${PROJECT_PATH}/merge_requests/7`, { status: 409, body: { message: 'Conflict' } });
+
+      const error = await provider.getChangeRequest(7).catch(caught => caught);
+
+      expect(error).toBeInstanceOf(LinearPrError);
+      expect(error).not.toBeInstanceOf(PullRequestExistsError);
+      expect(error.message).toBe('GitLab API request failed (409): Conflict');
+    });
+  });
+});
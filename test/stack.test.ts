@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { renderStackSection, setStackSection } from '../src/stack.js';
+import type { ChangeRequest } from '../src/providers/types.js';
+
+/**
+ * A change request with the fields the stack section uses
+ */
+function changeRequest(number: number, title: string): ChangeRequest {
+  return {
+    number,
+    url: `https://github.com/o/r/pull/${number}`,
+    title,
+    state: 'open',
+    sourceBranch: `branch-${number}`,
+    targetBranch: 'main',
+    body: ''
+  };
+}
+
+const section = renderStackSection(changeRequest(1, 'Base'), [changeRequest(3, 'Child')]);
+
+describe('renderStackSection', () => {
+  it('links the base and the children between markers', () => {
+    expect(section).toBe([
+      '<!-- linear-pr:stack -->',
+      '**Stack**',
+      '',
+      '- Based on [Base](https://github.com/o/r/pull/1)',
+      '- Followed by [Child](https://github.com/o/r/pull/3)',
+      '<!-- /linear-pr:stack -->'
+    ].join('\n'));
+  });
+
+  it('is empty without a base or children', () => {
+    expect(renderStackSection(null, [])).toBe('');
+  });
+});
+
+describe('setStackSection', () => {
+  it('appends the section to a description', () => {
+    expect(setStackSection('Description\n\n', section)).toBe(`Description\n\n${section}\n`);
+  });
+
+  it('adds the section to an empty description without leading blank lines', () => {
+    expect(setStackSection('', section)).toBe(`${section}\n`);
+  });
+
+  it('replaces the previous section', () => {
+    const previous = renderStackSection(changeRequest(2, 'Old base'), []);
+    expect(setStackSection(`Description\n\n${previous}\n`, section)).toBe(`Description\n\n${section}\n`);
+  });
+
+  it('removes the section when the new one is empty', () => {
+    expect(setStackSection(`Description\n\n${section}\n`, '')).toBe('Description\n');
+  });
+
+  it('keeps a description without a section as it is', () => {
+    expect(setStackSection('Description\n', '')).toBe('Description\n');
+  });
+});
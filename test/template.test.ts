@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { formatTaskList, renderTemplate } from '../src/template.js';
+import type { TemplateContext } from '../src/template.js';
+
+const context: TemplateContext = {
+  task: {
+    id: 'ENG-123',
+    url: 'https://linear.app/acme/issue/ENG-123',
+    title: 'Add login',
+    description: 'Users need to log in.',
+    project: null,
+    labels: ['auth', 'frontend']
+  },
+  taskList: '### [ENG-123](https://linear.app/acme/issue/ENG-123) Add login',
+  branch: 'feature/eng-123-add-login'
+};
+
+describe('renderTemplate', () => {
+  it('fills in placeholders', () => {
+    expect(renderTemplate('[{{task.id}}]({{ task.url }}) from {{branch}}', context))
+      .toBe('[ENG-123](https://linear.app/acme/issue/ENG-123) from feature/eng-123-add-login');
+  });
+
+  it('joins lists and leaves empty values blank', () => {
+    expect(renderTemplate('Labels: {{task.labels}}; project: {{task.project}}.', context)).toBe('Labels: auth, frontend; project: .');
+  });
+
+  it('leaves unknown placeholders untouched', () => {
+    const template = 'token: ${{ secrets.TOKEN }}\nref: {{ github.ref }} {{task.unknown}} {{}}';
+    expect(renderTemplate(template, context)).toBe(template);
+  });
+
+  it('renders the matching branch of conditional blocks', () => {
+    const template = '{{#if task.description}}Has description{{else}}No description{{/if}}|{{#unless task.project}}No project{{/unless}}';
+    expect(renderTemplate(template, context)).toBe('Has description|No project');
+    expect(renderTemplate(template, { ...context, task: { ...context.task, description: ' ', project: 'Web' } })).toBe('No description|');
+  });
+
+  it('skips everything inside an inactive block, including nested blocks', () => {
+    const template = '{{#if task.project}}{{#if task.labels}}{{task.labels}}{{/if}}{{else}}none{{/if}}';
+    expect(renderTemplate(template, context)).toBe('none');
+  });
+
+  it('drops the lines of block tags that stand on their own', () => {
+    const template = 'Before\n{{#if task.labels}}\nLabeled\n{{/if}}\nAfter';
+    expect(renderTemplate(template, context)).toBe('Before\nLabeled\nAfter');
+  });
+
+  it.each([
+    ['{{else}}', '{{else}} outside of a conditional block'],
+    ['{{#if task.id}}open', 'missing {{/if}}'],
+    ['{{#if task.id}}x{{/unless}}', 'unexpected {{/unless}}']
+  ])('rejects the invalid template %s', (template, message) => {
+    expect(() => renderTemplate(template, context)).toThrow(message);
+  });
+});
+
+describe('formatTaskList', () => {
+  it('renders a linked heading and the description of each task', () => {
+    expect(formatTaskList([
+      { id: 'ENG-1', url: 'https://linear.app/1', title: 'First', description: 'One\n' },
+      { id: 'ENG-2', url: 'https://linear.app/2', title: 'Second', description: '' }
+    ])).toBe('### [ENG-1](https://linear.app/1) First\n\nOne\n\n### [ENG-2](https://linear.app/2) Second');
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { formatPRTitle, parsePRTitle, parseTitleTaskIds, validateTitleFormat } from '../src/title.js';
+
+describe('formatPRTitle', () => {
+  it('formats a title with the default format', () => {
+    expect(formatPRTitle({ type: 'feat', module: 'auth', id: 'ENG-123', title: 'Add login' })).toBe('feat(auth): [ENG-123] Add login');
+  });
+
+  it('leaves out an optional placeholder and its text when the value is empty', () => {
+    expect(formatPRTitle({ type: 'fix', id: 'ENG-123', title: 'Crash on start' })).toBe('fix: [ENG-123] Crash on start');
+  });
+
+  it('lists every task ID for {ids}, falling back to the primary ID', () => {
+    const format = '{type}: [{ids}] {title}';
+    expect(formatPRTitle({ type: 'feat', id: 'ENG-1', ids: ['ENG-1', 'ENG-2'], title: 'Both' }, format)).toBe('feat: [ENG-1, ENG-2] Both');
+    expect(formatPRTitle({ type: 'feat', id: 'ENG-1', title: 'One' }, format)).toBe('feat: [ENG-1] One');
+  });
+});
+
+describe('parsePRTitle', () => {
+  it('parses a title made with the default format', () => {
+    expect(parsePRTitle('feat(auth): [eng-123] Add login')).toEqual({ type: 'feat', module: 'auth', id: 'ENG-123', ids: ['ENG-123'], title: 'Add login' });
+    expect(parsePRTitle('fix: [ENG-123] Crash')).toEqual({ type: 'fix', module: undefined, id: 'ENG-123', ids: ['ENG-123'], title: 'Crash' });
+  });
+
+  it('parses every ID from {ids}', () => {
+    expect(parsePRTitle('feat: [ENG-1, eng-2] Both', '{type}: [{ids}] {title}')).toMatchObject({ id: 'ENG-1', ids: ['ENG-1', 'ENG-2'] });
+  });
+
+  it('round-trips a custom format', () => {
+    const format = '[{id}] {title} ({type})';
+    const parts = { type: 'chore', id: 'OPS-9', ids: ['OPS-9'], title: 'Bump deps', module: undefined };
+    expect(parsePRTitle(formatPRTitle(parts, format), format)).toEqual(parts);
+  });
+
+  it('returns null for titles that don\'t follow the format', () => {
+    expect(parsePRTitle('Add login')).toBeNull();
+  });
+});
+
+describe('parseTitleTaskIds', () => {
+  it('uses the first format that matches', () => {
+    expect(parseTitleTaskIds('feat: [ENG-1, ENG-2] Both', ['{type}: [{ids}] {title}', undefined])).toEqual(['ENG-1', 'ENG-2']);
+    expect(parseTitleTaskIds('feat: [ENG-1] One', ['{type}: [{ids}] {title}'])).toEqual(['ENG-1']);
+  });
+
+  it('falls back to every uppercase ID the title mentions', () => {
+    expect(parseTitleTaskIds('Fix ENG-1 and ENG-2 (again ENG-1), utf-8 safe', ['[{id}] {title}'])).toEqual(['ENG-1', 'ENG-2']);
+  });
+});
+
+describe('validateTitleFormat', () => {
+  it('requires an ID placeholder and known placeholders', () => {
+    expect(validateTitleFormat('{type}: {title}')).toBe('must include the {id} or {ids} placeholder');
+    expect(validateTitleFormat('{type}: [{id}] {summary}')).toBe('uses unknown placeholder(s): {summary}');
+    expect(validateTitleFormat('[{id}] {title}')).toBeNull();
+  });
+});
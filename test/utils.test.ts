@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { containsTaskId, createBranchName, slugify } from '../src/utils.js';
+
+describe('slugify', () => {
+  it.each([
+    ['Add login page', 'add-login-page'],
+    ['  Fix: crash (on start)!  ', 'fix-crash-on-start'],
+    ['Search & replace', 'search-and-replace'],
+    ['Café Straße Øresund', 'cafe-strasse-oresund'],
+    ['日本語', '']
+  ])('turns %j into %j', (input, expected) => {
+    expect(slugify(input)).toBe(expected);
+  });
+});
+
+describe('createBranchName', () => {
+  it('uses the default pattern and maps feat to feature', () => {
+    expect(createBranchName('ENG-123', 'Add login page')).toBe('feature/eng-123-add-login-page');
+  });
+
+  it('uses other types as their own prefix', () => {
+    expect(createBranchName('ENG-123', 'Crash on start', { type: 'fix' })).toBe('fix/eng-123-crash-on-start');
+  });
+
+  it('fills in a custom pattern with the user handle', () => {
+    expect(createBranchName('ENG-123', 'Add login', { pattern: '{user}/{id}-{slug}', user: 'Jane.Doe' }))
+      .toBe('jane-doe/eng-123-add-login');
+  });
+
+  it('leaves no dangling separators when the title has no usable characters', () => {
+    expect(createBranchName('ENG-123', '!!!')).toBe('feature/eng-123');
+  });
+
+  it('cuts the slug at a word boundary to fit the maximum length', () => {
+    const name = createBranchName('ENG-123', 'Add a very long title to the login page', { maxLength: 30 });
+    expect(name).toBe('feature/eng-123-add-a-very');
+    expect(name.length).toBeLessThanOrEqual(30);
+  });
+
+  it('rejects unknown placeholders', () => {
+    expect(() => createBranchName('ENG-123', 'Add login', { pattern: '{type}/{ticket}' })).toThrow('{ticket}');
+  });
+
+  it('requires a user handle for {user}', () => {
+    expect(() => createBranchName('ENG-123', 'Add login', { pattern: '{user}/{id}' })).toThrow('no user handle');
+  });
+});
+
+describe('containsTaskId', () => {
+  it('matches the ID regardless of case, but not a longer ID', () => {
+    expect(containsTaskId('feature/eng-12-add-login', 'ENG-12')).toBe(true);
+    expect(containsTaskId('feature/eng-123-add-login', 'ENG-12')).toBe(false);
+    expect(containsTaskId('feature/xeng-12-add-login', 'ENG-12')).toBe(false);
+  });
+});